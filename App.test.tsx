@@ -0,0 +1,315 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { GameMode, LevelData } from './types.ts';
+import App from './App.tsx';
+import { loadPlayerWordLists } from './services/curation.ts';
+import { loadProgress, saveProgress } from './services/persistence.ts';
+import { createHintState } from './services/hints.ts';
+import { loadWordReports } from './services/wordReports.ts';
+import { loadStats } from './services/stats.ts';
+
+// A worker-free engine serving one small level: CATS across, ACT down through its A.
+const engine = vi.hoisted(() => ({
+  setLanguage: async () => {},
+  setPlayerLists: async () => {},
+  init: async () => {},
+  generateLevel: async (): Promise<LevelData> => ({
+    seed: 7,
+    language: 'en',
+    rootLetters: 'acst',
+    displayLetters: ['C', 'A', 'T', 'S'],
+    validWords: ['cats', 'act'],
+    placedWords: [
+      { word: 'cats', x: 0, y: 0, direction: 'horizontal' },
+      { word: 'act', x: 1, y: 0, direction: 'vertical' }
+    ],
+    gridWidth: 4,
+    gridHeight: 3,
+    foundWords: new Set(),
+    extraWords: new Set(),
+    revealedWords: new Set()
+  }),
+  isValidWord: async (word: string) => word === 'cast',
+  findWords: async () => []
+}));
+
+vi.mock('./services/engineClient.ts', () => ({ engine }));
+
+// One key per render, as the wheel re-binds its key handler after each selection.
+const guess = async (word: string) => {
+  for (const key of word) fireEvent.keyDown(window, { key });
+  // Settles the engine lookup for words that are not in the grid.
+  await act(async () => {
+    fireEvent.keyDown(window, { key: 'Enter' });
+  });
+};
+
+// Feedback is shown on screen and mirrored to the live region; read the latter.
+const announced = () => screen.getByRole('status').textContent;
+
+const renderApp = async () => {
+  render(<App />);
+  await screen.findByRole('button', { name: 'Letter C' });
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  // jsdom lays nothing out, and the wheel only draws its tiles once it has a size.
+  vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+    { left: 0, top: 0, right: 200, bottom: 200, width: 200, height: 200, x: 0, y: 0, toJSON: () => ({}) }
+  );
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(cleanup);
+
+describe('App guess feedback', () => {
+  it('rejects guesses under three letters', async () => {
+    await renderApp();
+    await guess('ca');
+    expect(announced()).toBe('TOO SHORT');
+  });
+
+  it('accepts a grid word once', async () => {
+    await renderApp();
+    await guess('act');
+    expect(announced()).toBe('AWESOME');
+
+    await guess('act');
+    expect(announced()).toBe('ALREADY FOUND');
+  });
+
+  it('counts dictionary words that are not in the grid as extras', async () => {
+    await renderApp();
+    await guess('cast');
+    expect(announced()).toBe('EXTRA WORD!');
+    expect(screen.getByRole('button', { name: /^Bonus words/ }).querySelector('.animate-success')).not.toBeNull();
+
+    await guess('cast');
+    expect(announced()).toBe('ALREADY FOUND');
+  });
+
+  it('fills the bonus meter when extra words land before a re-render', async () => {
+    vi.spyOn(engine, 'isValidWord').mockResolvedValue(true);
+    await renderApp();
+    // Submitted back to back, so every lookup is still out when the next word goes in.
+    for (const word of ['tac', 'sat', 'cat', 'sac', 'scat']) {
+      for (const key of word) fireEvent.keyDown(window, { key });
+      fireEvent.keyDown(window, { key: 'Enter' });
+    }
+    await act(async () => {});
+
+    expect(announced()).toBe('FREE HINT!');
+    expect(screen.getByRole('button', { name: 'Hints, 1 free' })).toBeTruthy();
+  });
+
+  it('rejects words the engine does not know', async () => {
+    await renderApp();
+    await guess('tac');
+    expect(announced()).toBe('NOPE');
+  });
+
+  it('completes the level when every grid word is found', async () => {
+    await renderApp();
+    await guess('act');
+    expect(screen.queryByRole('button', { name: 'Next Puzzle' })).toBeNull();
+
+    await guess('cats');
+    expect(await screen.findByRole('button', { name: 'Next Puzzle' })).toBeTruthy();
+    // CATS and ACT at 10 points a letter.
+    const celebration = screen.getByRole('dialog', { name: 'Level 1 clear' });
+    expect(celebration.textContent).toContain('Score 70');
+  });
+
+  it('leaves words revealed by hints out of the words found', async () => {
+    const level = await engine.generateLevel();
+    saveProgress(GameMode.CLASSIC, {
+      score: 0, levelNumber: 1, level: { ...level, foundWords: new Set(['cats']), revealedWords: new Set(['cats']) },
+      displayLetters: level.displayLetters, hints: createHintState(), isSkipped: false, bonusProgress: 0, freeHints: 0,
+      levelComplete: false, timeLeft: null
+    });
+    await renderApp();
+    await guess('act');
+
+    expect(await screen.findByRole('button', { name: 'Next Puzzle' })).toBeTruthy();
+    expect(loadStats().history[0]).toMatchObject({ wordsFound: 1, totalWords: 2 });
+  });
+
+  it('ignores an extra word that is still being checked when the level completes', async () => {
+    let answer: (isWord: boolean) => void = () => {};
+    vi.spyOn(engine, 'isValidWord').mockReturnValueOnce(new Promise(resolve => { answer = resolve; }));
+    await renderApp();
+    for (const key of 'cast') fireEvent.keyDown(window, { key });
+    fireEvent.keyDown(window, { key: 'Enter' });
+    await guess('act');
+    await guess('cats');
+    await act(async () => answer(true));
+
+    const celebration = await screen.findByRole('dialog', { name: 'Level 1 clear' });
+    expect(celebration.textContent).toContain('Score 70');
+    const progress = loadProgress(GameMode.CLASSIC);
+    expect(progress?.score).toBe(70);
+    expect(progress?.level.extraWords.size).toBe(0);
+    expect(progress?.bonusProgress).toBe(0);
+  });
+});
+
+describe('App word reports', () => {
+  it('queues a rejected guess as a real word and accepts it from then on', async () => {
+    await renderApp();
+    await guess('tac');
+    fireEvent.click(screen.getByRole('button', { name: 'Real word?' }));
+    expect(screen.getByRole('dialog', { name: 'This is a real word' })).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Report' }));
+
+    const [report] = loadWordReports();
+    expect(report).toMatchObject({ kind: 'rejected', word: 'tac', language: 'en', levelNumber: 1 });
+    expect(report.level).toMatchObject({ seed: 7, rootLetters: 'acst' });
+    expect(loadPlayerWordLists('en').allowed).toEqual(['tac']);
+    expect(announced()).toBe('REPORTED');
+  });
+
+  it('reports a found grid word from its cell', async () => {
+    await renderApp();
+    await guess('act');
+    // The A of ACT is also in CATS, which is not found yet and must not be offered.
+    const cell = document.querySelector('[data-cell="1,0"]')!;
+    fireEvent.keyDown(cell, { key: 'ContextMenu' });
+    const dialog = screen.getByRole('dialog', { name: 'Report this word' });
+    expect(screen.getAllByRole('radio').map(radio => radio.textContent)).toEqual(['ACT']);
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.click(screen.getByRole('button', { name: 'Report' }));
+    expect(dialog.isConnected).toBe(false);
+    expect(loadWordReports()).toMatchObject([{ kind: 'grid', word: 'act' }]);
+    expect(loadPlayerWordLists('en').blocked).toEqual([]);
+  });
+
+  it('queues a report over corrupt stored reports', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('wordflow.wordReports.v1', JSON.stringify([null, { kind: 'grid', word: 'cats', language: 'en' }]));
+    await renderApp();
+    await guess('tac');
+    fireEvent.click(screen.getByRole('button', { name: 'Real word?' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Report' }));
+
+    expect(loadWordReports()).toMatchObject([{ kind: 'rejected', word: 'tac' }]);
+    expect(announced()).toBe('REPORTED');
+  });
+});
+
+describe('App wheel controls', () => {
+  const wheelOrder = () => screen.getAllByRole('button', { name: /^Letter / }).map(tile => tile.textContent);
+
+  it('shuffles the wheel, keeps the typed letters and saves the new order', async () => {
+    await renderApp();
+    fireEvent.keyDown(window, { key: 'a' });
+    fireEvent.keyDown(window, { key: 'c' });
+    fireEvent.click(screen.getByRole('button', { name: 'Shuffle letters' }));
+
+    const order = wheelOrder();
+    expect(order).not.toEqual(['C', 'A', 'T', 'S']);
+    expect([...order].sort()).toEqual(['A', 'C', 'S', 'T']);
+    expect(loadProgress(GameMode.CLASSIC)?.displayLetters).toEqual(order);
+
+    await guess('t');
+    expect(announced()).toBe('AWESOME');
+  });
+
+  it('repeats the previous guess', async () => {
+    await renderApp();
+    expect(screen.getByRole('button', { name: 'Repeat last word' })).toHaveProperty('disabled', true);
+
+    await guess('act');
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Repeat act' }));
+    });
+    expect(announced()).toBe('ALREADY FOUND');
+  });
+});
+
+describe('App daily puzzle', () => {
+  it('resumes an unfinished daily attempt instead of dealing it again', async () => {
+    await renderApp();
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: '📅 Daily' }));
+    });
+    await guess('act');
+    expect(announced()).toBe('AWESOME');
+
+    fireEvent.click(screen.getByRole('button', { name: '∞ Endless' }));
+    await act(async () => {
+      fireEvent.click(await screen.findByRole('button', { name: '📅 Daily' }));
+    });
+    await guess('act');
+    expect(announced()).toBe('ALREADY FOUND');
+  });
+});
+
+describe('App loading', () => {
+  it('offers a retry when a level fails to load', async () => {
+    vi.spyOn(engine, 'generateLevel').mockRejectedValueOnce(new Error('Worker crashed'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<App />);
+
+    const retry = await screen.findByRole('button', { name: 'Retry' });
+    expect(screen.getByRole('alert').textContent).toBe("Couldn't load the puzzle");
+    fireEvent.click(retry);
+    expect(await screen.findByRole('button', { name: 'Letter C' })).toBeTruthy();
+  });
+
+  it('says so when a guess cannot be checked', async () => {
+    vi.spyOn(engine, 'isValidWord').mockRejectedValueOnce(new Error('Worker crashed'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await renderApp();
+    await guess('cast');
+    expect(announced()).toBe('COULD NOT CHECK');
+  });
+});
+
+describe('App failed level', () => {
+  it('replays the same grid from the start', async () => {
+    const level = await engine.generateLevel();
+    saveProgress(GameMode.CLASSIC, {
+      // A seed the mock engine never deals, to tell the replayed grid from a new one.
+      score: 0, levelNumber: 3, level: { ...level, seed: 99, foundWords: new Set(['act']), revealedWords: new Set(['cats']) },
+      displayLetters: level.displayLetters, hints: createHintState(), isSkipped: true, bonusProgress: 0, freeHints: 0,
+      levelComplete: false, timeLeft: 0
+    });
+    render(<App />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Retry Level' }));
+    await guess('act');
+    expect(announced()).toBe('AWESOME');
+    expect(screen.getByText('LEVEL 3')).toBeTruthy();
+    expect(screen.getByText('SEED 99')).toBeTruthy();
+  });
+});
+
+describe('App time attack', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops the clock while a panel covers the board', async () => {
+    const level = await engine.generateLevel();
+    localStorage.setItem('wordflow.mode', GameMode.TIME_ATTACK);
+    saveProgress(GameMode.TIME_ATTACK, {
+      score: 0, levelNumber: 1, level, displayLetters: level.displayLetters, hints: createHintState(),
+      isSkipped: false, bonusProgress: 0, freeHints: 0, levelComplete: false, timeLeft: 30
+    });
+    await renderApp();
+    fireEvent.click(screen.getByRole('button', { name: 'Statistics' }));
+
+    // Real time, as the clock's first tick was scheduled on real timers.
+    await act(() => new Promise(resolve => setTimeout(resolve, 1100)));
+    expect(screen.getByLabelText('30 seconds left')).toBeTruthy();
+
+    vi.useFakeTimers();
+    fireEvent.click(screen.getAllByRole('button', { name: 'Close' })[0]);
+    act(() => vi.advanceTimersByTime(1000));
+    expect(screen.getByLabelText('29 seconds left')).toBeTruthy();
+  });
+});
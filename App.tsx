@@ -1,52 +1,475 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { wordEngine } from './services/wordEngine.ts';
-import { LevelData, GameState } from './types.ts';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { LayoutOptions } from './services/wordEngine.ts';
+import { engine } from './services/engineClient.ts';
+import {
+  DAILY_LAYOUT_OPTIONS, DailyResult, buildDailyResult, formatResultCard, getDailyKey, getDailyProfile, getDailySeed,
+  loadDailyResult, saveDailyResult
+} from './services/daily.ts';
+import { GameProgress, loadDailyProgress, loadProgress, saveDailyProgress, saveProgress } from './services/persistence.ts';
+import {
+  LANGUAGES, LanguageCode, getLanguage, isLanguageCode, loadLanguagePreference, saveLanguagePreference
+} from './services/languages.ts';
+import { DifficultyProfile, getDifficultyProfile } from './services/difficulty.ts';
+import {
+  DEFAULT_HINT_COSTS, TARGETED_HINTS, applyHint, createHintState, startingLetterIndices, totalHintsUsed, wordCells
+} from './services/hints.ts';
+import { formatDuration, recordGuess, recordHint, recordLevel } from './services/stats.ts';
+import { LevelPack, createLevelPack, fromLevelFile, toLevelFile } from './services/levelPack.ts';
+import { MODE_RULES, isGameMode, loadModePreference, recordModeClear, saveModePreference } from './services/gameModes.ts';
+import { emitFeedback, onFeedback } from './services/feedback.ts';
+import { feedbackManager } from './services/feedbackManager.ts';
+import { applyUpdate, onUpdateReady } from './services/serviceWorker.ts';
+import { MIN_GUESS_LENGTH, PlayerWordLists, addPlayerWord, loadPlayerWordLists, savePlayerWordLists } from './services/curation.ts';
+import { WordReportKind, createWordReport, queueWordReport } from './services/wordReports.ts';
+import { createRng, randomSeed, reshuffle } from './services/random.ts';
+import { LevelData, LevelSummary, GameMode, GameState, GuessOutcome, HintState, HintType, PuzzleSource } from './types.ts';
 import LetterWheel from './components/LetterWheel.tsx';
 import CrosswordGrid from './components/CrosswordGrid.tsx';
+import BonusWordsPanel from './components/BonusWordsPanel.tsx';
+import HintMenu from './components/HintMenu.tsx';
+import WordReview from './components/WordReview.tsx';
+import DefinitionCard from './components/DefinitionCard.tsx';
+import StatsPanel from './components/StatsPanel.tsx';
+import PackPanel from './components/PackPanel.tsx';
+import LevelEditor from './components/LevelEditor.tsx';
+import LevelCelebration from './components/LevelCelebration.tsx';
+import SettingsPanel from './components/SettingsPanel.tsx';
+import ReportWordDialog from './components/ReportWordDialog.tsx';
+
+// Extra words needed to fill the bonus meter and earn one free hint.
+const BONUS_METER_SIZE = 5;
+// How long "Real word?" stays up after a rejected guess.
+const REPORT_OFFER_MS = 4000;
+
+// Grid words the player typed; words revealed by hints or by giving up do not count as found.
+const typedWords = (level: LevelData): Set<string> =>
+  new Set([...level.foundWords].filter(word => !level.revealedWords.has(word)));
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.LOADING);
   const [level, setLevel] = useState<LevelData | null>(null);
   const [currentGuess, setCurrentGuess] = useState("");
   const [message, setMessage] = useState("");
+  const [isMessagePositive, setIsMessagePositive] = useState(false);
   const [score, setScore] = useState(0);
   const [levelNumber, setLevelNumber] = useState(1);
   const [isSkipped, setIsSkipped] = useState(false);
-  const [revealedIndices, setRevealedIndices] = useState<Record<string, number[]>>({});
+  const [hints, setHints] = useState<HintState>(createHintState);
+  const [showHintMenu, setShowHintMenu] = useState(false);
+  // A targeted hint waiting for the player to tap a word on the grid.
+  const [pendingHint, setPendingHint] = useState<HintType | null>(null);
+  // Found words whose definition is shown after tapping one of their cells.
+  const [definedWords, setDefinedWords] = useState<string[]>([]);
+  // The wheel's current order; starts as the level's and changes with each shuffle.
   const [displayLetters, setDisplayLetters] = useState<string[]>([]);
+  // The previous guess this level, for the repeat button.
+  const [lastGuess, setLastGuess] = useState("");
+  const [puzzleSource, setPuzzleSource] = useState<PuzzleSource>(PuzzleSource.ENDLESS);
+  const [bonusProgress, setBonusProgress] = useState(0);
+  const [freeHints, setFreeHints] = useState(0);
+  // Bumped on each extra word; keying the bonus badge on it restarts its pulse.
+  const [bonusPulse, setBonusPulse] = useState(0);
+  const [showBonusWords, setShowBonusWords] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showPacks, setShowPacks] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [activePack, setActivePack] = useState<{ pack: LevelPack; index: number } | null>(null);
+  const [dailyKey, setDailyKey] = useState("");
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(null);
+  // Score breakdown shown over the grid when a level is cleared.
+  const [celebration, setCelebration] = useState<LevelSummary | null>(null);
+  // The last rejected guess, briefly offered for a "this is a real word" report.
+  const [rejectedGuess, setRejectedGuess] = useState<string | null>(null);
+  const [reportDraft, setReportDraft] = useState<{ kind: WordReportKind; words: string[] } | null>(null);
+  // Retries the step that failed to load a level; set while the loading screen shows the error.
+  const [loadFailure, setLoadFailure] = useState<(() => void) | null>(null);
+  // A new app version has installed; offered only between levels.
+  const [updateReady, setUpdateReady] = useState(false);
+  const [language, setLanguage] = useState<LanguageCode>(loadLanguagePreference);
+  const [gameMode, setGameMode] = useState<GameMode>(loadModePreference);
+  // Time-attack countdown in seconds; null while untimed or before the level's clock starts.
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const endlessSnapshot = useRef<GameProgress | null>(null);
+  // Next endless level, generated in the worker while the current one is played.
+  const prefetched = useRef<{ levelNumber: number; level: LevelData | null; promise: Promise<LevelData> } | null>(null);
+  // Latest level for async handlers that resume after a worker round trip.
+  const levelRef = useRef<LevelData | null>(null);
+  levelRef.current = level;
+  const bonusProgressRef = useRef(0);
+  bonusProgressRef.current = bonusProgress;
+  // Bumped with each score change and state change as it is made, so a move that finishes the
+  // level sees the extras scored since this render, and a late extra sees that the level is over.
+  const scoreRef = useRef(0);
+  scoreRef.current = score;
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+  // When the current level was shown (or resumed), for time-per-level stats.
+  const levelStartedAt = useRef(Date.now());
+  // Clears the feedback message; restarted by each new message and cancelled on unmount.
+  const messageTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const rejectedGuessTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Modes shape endless play only; daily puzzles and packs always use the classic rules.
+  const rules = MODE_RULES[puzzleSource === PuzzleSource.ENDLESS ? gameMode : GameMode.CLASSIC];
+  // The editor or a full-screen panel hides the board; the time-attack clock waits meanwhile.
+  const isBoardCovered = showEditor || showStats || showPacks || showSettings || showBonusWords || reportDraft !== null;
+
+  useEffect(() => {
+    attemptLoad("initialize WordEngine", async () => {
+      await engine.setLanguage(language);
+      await engine.setPlayerLists(loadPlayerWordLists(language));
+      await engine.init();
+      await resumeRun(gameMode);
+    });
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => onFeedback(event => feedbackManager.play(event)), []);
+
+  useEffect(() => onFeedback(event => {
+    if (event.type === 'guess' && event.outcome === GuessOutcome.EXTRA) setBonusPulse(prev => prev + 1);
+  }), []);
+
+  useEffect(() => onUpdateReady(() => setUpdateReady(true)), []);
+
+  useEffect(() => () => {
+    clearTimeout(messageTimer.current);
+    clearTimeout(rejectedGuessTimer.current);
+  }, []);
+
+  // For steps that end on the loading screen: a failure there offers a retry instead of spinning
+  // forever. Never rejects, so callers need not catch.
+  const attemptLoad = async (action: string, task: () => Promise<void>): Promise<void> => {
+    setLoadFailure(null);
+    try {
+      await task();
+    } catch (err) {
+      console.error(`❌ App: Failed to ${action}:`, err);
+      setGameState(GameState.LOADING);
+      setLoadFailure(() => () => { attemptLoad(action, task); });
+    }
+  };
+
+  // Picks up the mode's saved endless run, or starts a new one at level 1.
+  const resumeRun = async (mode: GameMode) => {
+    const saved = loadProgress(mode);
+    if (saved?.level.language === language) {
+      console.info(`💾 App: Resuming ${MODE_RULES[mode].label} level ${saved.levelNumber}`);
+      applyProgress(saved);
+      return;
+    }
+    // Saved in another language: keep the run, deal a fresh grid in this one.
+    setScore(saved?.score ?? 0);
+    setLevelNumber(saved?.levelNumber ?? 1);
+    setBonusProgress(saved?.bonusProgress ?? 0);
+    setFreeHints(saved?.freeHints ?? 0);
+    await loadEndlessLevel(saved?.levelNumber ?? 1);
+  };
+
+  const captureProgress = (): GameProgress | null => {
+    if (!level) return null;
+    return {
+      score, levelNumber, level, displayLetters, hints, isSkipped, bonusProgress, freeHints, timeLeft,
+      levelComplete: gameState === GameState.LEVEL_COMPLETE
+    };
+  };
+
+  const applyProgress = (progress: GameProgress) => {
+    setScore(progress.score);
+    setLevelNumber(progress.levelNumber);
+    setLevel(progress.level);
+    setDisplayLetters(progress.displayLetters);
+    setLastGuess("");
+    setHints(progress.hints);
+    setIsSkipped(progress.isSkipped);
+    setBonusProgress(progress.bonusProgress);
+    setFreeHints(progress.freeHints);
+    setTimeLeft(progress.timeLeft);
+    setCelebration(null);
+    levelStartedAt.current = Date.now();
+    setGameState(progress.levelComplete ? GameState.LEVEL_COMPLETE : progress.timeLeft === 0 ? GameState.LEVEL_FAILED : GameState.PLAYING);
+  };
+
+  // The endless run and an unfinished daily run are persisted; a finished daily is recorded through its result.
+  useEffect(() => {
+    if (gameState === GameState.LOADING || gameState === GameState.DAILY_COMPLETE) return;
+    if (puzzleSource === PuzzleSource.PACK) return;
+    const progress = captureProgress();
+    if (!progress) return;
+    if (puzzleSource === PuzzleSource.DAILY) saveDailyProgress(dailyKey, progress);
+    else saveProgress(gameMode, progress);
+  }, [score, levelNumber, level, displayLetters, hints, isSkipped, bonusProgress, freeHints, timeLeft, gameState, puzzleSource, gameMode, dailyKey]);
+
+  // A fresh level starts its clock here, where the current mode's rules are in scope.
+  useEffect(() => {
+    if (gameState === GameState.PLAYING && rules.startSeconds !== null && timeLeft === null) setTimeLeft(rules.startSeconds);
+  }, [gameState, rules, timeLeft]);
+
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING || timeLeft === null) return;
+    if (timeLeft === 0) {
+      failLevel();
+      return;
+    }
+    if (isBoardCovered) return;
+    const id = setTimeout(() => setTimeLeft(prev => prev === null ? null : Math.max(0, prev - 1)), 1000);
+    return () => clearTimeout(id);
+  }, [gameState, timeLeft, isBoardCovered]);
 
   useEffect(() => {
-    const initGame = async () => {
+    if (gameState !== GameState.PLAYING || puzzleSource !== PuzzleSource.ENDLESS) return;
+    const upcoming = levelNumber + 1;
+    if (prefetched.current?.levelNumber === upcoming) return;
+    const entry = { levelNumber: upcoming, level: null as LevelData | null, promise: engine.generateLevel(getDifficultyProfile(upcoming)) };
+    entry.promise.then(ready => { entry.level = ready; }, err => console.warn("⚙️ App: Prefetch failed", err));
+    prefetched.current = entry;
+  }, [gameState, puzzleSource, levelNumber]);
+
+  const loadNewLevel = async (profile: DifficultyProfile, seed?: number, options?: Partial<LayoutOptions>) => {
+    setGameState(GameState.LOADING);
+    showLevel(await engine.generateLevel(profile, seed, options));
+  };
+
+  const loadEndlessLevel = async (number: number) => {
+    const entry = prefetched.current?.levelNumber === number ? prefetched.current : null;
+    prefetched.current = null;
+    if (entry?.level) {
+      showLevel(entry.level);
+      return;
+    }
+    if (entry) {
+      setGameState(GameState.LOADING);
       try {
-        await wordEngine.init();
-        loadNewLevel(6);
-      } catch (err) {
-        console.error("❌ App: Failed to initialize WordEngine:", err);
+        showLevel(await entry.promise);
+        return;
+      } catch {
+        // Fall through and generate it again.
       }
-    };
-    initGame();
-  }, []);
+    }
+    await loadNewLevel(getDifficultyProfile(number));
+  };
 
-  const loadNewLevel = (length: number) => {
-    const nextLevelData = wordEngine.generateLevel(length);
+  const showLevel = (nextLevelData: LevelData) => {
     setLevel(nextLevelData);
     setDisplayLetters(nextLevelData.displayLetters);
-    setRevealedIndices({});
+    setLastGuess("");
+    setHints(createHintState());
+    setTimeLeft(null);
+    levelStartedAt.current = Date.now();
     setGameState(GameState.PLAYING);
     setMessage("");
     setIsSkipped(false);
+    setShowBonusWords(false);
+    setShowHintMenu(false);
+    setPendingHint(null);
+    setDefinedWords([]);
+    setCelebration(null);
+    offerReport(null);
+    setReportDraft(null);
+  };
+
+  const changeLanguage = async (code: LanguageCode) => {
+    if (code === language || gameState === GameState.LOADING || puzzleSource !== PuzzleSource.ENDLESS) return;
+    setLanguage(code);
+    saveLanguagePreference(code);
+    prefetched.current = null;
+    setGameState(GameState.LOADING);
+    await attemptLoad(`switch language to ${code}`, async () => {
+      await engine.setLanguage(code);
+      await engine.setPlayerLists(loadPlayerWordLists(code));
+      await engine.init();
+      await loadNewLevel(getDifficultyProfile(levelNumber));
+    });
+  };
+
+  // The level on screen keeps its words; the prefetched one was picked before the change.
+  const changeWordLists = (lists: PlayerWordLists) => {
+    prefetched.current = null;
+    engine.setPlayerLists(lists).catch(err => console.error("❌ App: Failed to apply word lists:", err));
   };
 
-  const handleWordComplete = (word: string) => {
+  const changeMode = async (mode: GameMode) => {
+    if (mode === gameMode || gameState === GameState.LOADING || puzzleSource !== PuzzleSource.ENDLESS) return;
+    // LOADING in the same update keeps the save effect from filing this run under the new mode.
+    setGameState(GameState.LOADING);
+    setGameMode(mode);
+    saveModePreference(mode);
+    prefetched.current = null;
+    await attemptLoad(`start ${MODE_RULES[mode].label} run`, () => resumeRun(mode));
+  };
+
+  const startPack = (pack: LevelPack) => {
+    if (gameState === GameState.LOADING || puzzleSource === PuzzleSource.DAILY) return;
+    // Switching packs mid-pack keeps the endless run saved when the first pack started.
+    if (puzzleSource === PuzzleSource.ENDLESS) endlessSnapshot.current = captureProgress();
+    console.info(`📦 App: Starting pack "${pack.title ?? 'untitled'}" with ${pack.levels.length} levels`);
+    setPuzzleSource(PuzzleSource.PACK);
+    setActivePack({ pack, index: 0 });
+    setScore(0);
+    setBonusProgress(0);
+    setFreeHints(0);
+    setShowPacks(false);
+    showLevel(fromLevelFile(pack.levels[0]));
+  };
+
+  const startDaily = async () => {
+    if (puzzleSource !== PuzzleSource.ENDLESS || gameState === GameState.LOADING) return;
+    endlessSnapshot.current = captureProgress();
+
+    const key = getDailyKey();
+    const seed = getDailySeed(key, language);
+    setPuzzleSource(PuzzleSource.DAILY);
+    setDailyKey(key);
+    setScore(0);
+    setBonusProgress(0);
+    setFreeHints(0);
+
+    await attemptLoad("load the daily puzzle", async () => {
+      const existing = loadDailyResult(key, language);
+      if (existing) {
+        // Already played today: show the solved grid and the recorded card, no replay.
+        setGameState(GameState.LOADING);
+        const solved = await engine.generateLevel(getDailyProfile(seed), seed, DAILY_LAYOUT_OPTIONS);
+        setLevel({ ...solved, foundWords: new Set(solved.validWords) });
+        setDisplayLetters(solved.displayLetters);
+        setHints(createHintState());
+        setDailyResult(existing);
+        setGameState(GameState.DAILY_COMPLETE);
+        return;
+      }
+
+      setDailyResult(null);
+      // Started earlier today: pick the attempt up where it was left.
+      const attempt = loadDailyProgress(key, language);
+      if (attempt) {
+        applyProgress(attempt);
+        return;
+      }
+      await loadNewLevel(getDailyProfile(seed), seed, DAILY_LAYOUT_OPTIONS);
+    });
+  };
+
+  const returnToEndless = () => {
+    const snapshot = endlessSnapshot.current;
+    endlessSnapshot.current = null;
+    setPuzzleSource(PuzzleSource.ENDLESS);
+    setActivePack(null);
+    setDailyResult(null);
+    setMessage("");
+    if (!snapshot) {
+      setScore(0);
+      attemptLoad("load the endless level", () => loadEndlessLevel(levelNumber));
+      return;
+    }
+    applyProgress(snapshot);
+  };
+
+  const recordFinishedLevel = (playerFound: Set<string>, finalScore: number, gaveUp: boolean, finalHints: HintState) => {
+    if (!level) return;
+    const timeMs = Date.now() - levelStartedAt.current;
+    recordLevel({
+      finishedAt: new Date().toISOString(),
+      source: puzzleSource,
+      levelNumber: puzzleSource === PuzzleSource.ENDLESS ? levelNumber : activePack ? activePack.index + 1 : null,
+      seed: level.seed,
+      language: level.language,
+      wordsFound: level.placedWords.filter(pw => playerFound.has(pw.word)).length,
+      totalWords: level.placedWords.length,
+      extraWords: level.extraWords.size,
+      hintsUsed: totalHintsUsed(finalHints),
+      mode: puzzleSource === PuzzleSource.ENDLESS ? gameMode : GameMode.CLASSIC,
+      gaveUp,
+      timeMs,
+      score: finalScore
+    });
+    if (puzzleSource === PuzzleSource.ENDLESS && !gaveUp) {
+      recordModeClear(gameMode, { levelNumber, score: finalScore, timeMs });
+    }
+  };
+
+  const summarizeLevel = (finalLevel: LevelData, finalScore: number, finalHints: HintState): LevelSummary => {
+    const guessed = finalLevel.placedWords.filter(pw => !finalLevel.revealedWords.has(pw.word));
+    const wordPoints = rules.isScored ? guessed.reduce((sum, pw) => sum + pw.word.length * 10, 0) : 0;
+    return {
+      wordsFound: guessed.length,
+      wordsRevealed: finalLevel.placedWords.length - guessed.length,
+      wordPoints,
+      extraWords: finalLevel.extraWords.size,
+      extraPoints: rules.isScored ? finalLevel.extraWords.size * 10 : 0,
+      hintsUsed: totalHintsUsed(finalHints),
+      timeMs: Date.now() - levelStartedAt.current,
+      score: rules.isScored ? finalScore : null
+    };
+  };
+
+  // finalLevel and finalHints: the state as of this move, which may not have been rendered yet.
+  const finishLevel = (finalLevel: LevelData, finalScore: number, gaveUp: boolean, finalHints: HintState = hints) => {
+    if (!level) return;
+    const playerFound = typedWords(finalLevel);
+    recordFinishedLevel(playerFound, finalScore, gaveUp, finalHints);
+    const summary = gaveUp ? null : summarizeLevel(finalLevel, finalScore, finalHints);
+    if (summary) emitFeedback({ type: 'levelComplete', summary });
+    if (puzzleSource !== PuzzleSource.DAILY) {
+      setCelebration(summary);
+      gameStateRef.current = GameState.LEVEL_COMPLETE;
+      setGameState(GameState.LEVEL_COMPLETE);
+      return;
+    }
+    const result = buildDailyResult({
+      date: dailyKey,
+      language: level.language,
+      score: finalScore,
+      placedWords: level.placedWords,
+      playerFound,
+      hintedCells: finalHints.revealedCells,
+      hintsUsed: totalHintsUsed(finalHints),
+      gaveUp,
+      extraWords: level.extraWords.size
+    });
+    saveDailyResult(result);
+    setDailyResult(result);
+    gameStateRef.current = GameState.DAILY_COMPLETE;
+    setGameState(GameState.DAILY_COMPLETE);
+  };
+
+  const copyDailyResult = async () => {
+    if (!dailyResult) return;
+    try {
+      await navigator.clipboard.writeText(formatResultCard(dailyResult));
+      showTemporaryMessage("COPIED", true);
+    } catch (err) {
+      console.warn("📅 App: Clipboard unavailable", err);
+      showTemporaryMessage("COPY FAILED");
+    }
+  };
+
+  // Every classified guess goes to the stats and to whatever animates or plays feedback.
+  const reportGuess = (outcome: GuessOutcome, word: string) => {
+    recordGuess(outcome, word);
+    emitFeedback({ type: 'guess', outcome, word });
+  };
+
+  const handleWordComplete = async (word: string) => {
     if (!level || gameState !== GameState.PLAYING) return;
+    if (word.length > 0) {
+      offerReport(null);
+      setLastGuess(word);
+    }
 
-    if (word.length < 3) {
-      if (word.length > 0) showTemporaryMessage("TOO SHORT");
+    if (word.length < MIN_GUESS_LENGTH) {
+      if (word.length > 0) {
+        reportGuess(GuessOutcome.TOO_SHORT, word);
+        showTemporaryMessage("TOO SHORT");
+      }
       return;
     }
 
-    if (level.foundWords.has(word)) {
+    if (level.foundWords.has(word) || level.extraWords.has(word)) {
+      reportGuess(GuessOutcome.ALREADY_FOUND, word);
       showTemporaryMessage("ALREADY FOUND");
       return;
     }
@@ -57,132 +480,445 @@ const App: React.FC = () => {
       
       const newLevel = { ...level, foundWords: updatedFound };
       setLevel(newLevel);
-      setScore(prev => prev + word.length * 10);
+      reportGuess(GuessOutcome.VALID, word);
+      const points = rules.isScored ? word.length * 10 : 0;
+      scoreRef.current += points;
+      setScore(prev => prev + points);
+      if (timeLeft !== null) setTimeLeft(prev => prev === null ? null : prev + rules.secondsPerWord);
       showTemporaryMessage("AWESOME", true);
 
       if (updatedFound.size === level.validWords.length) {
-        setGameState(GameState.LEVEL_COMPLETE);
+        finishLevel(newLevel, scoreRef.current, false);
       }
     } else {
-      if (wordEngine.isValidWord(word)) {
-        showTemporaryMessage("EXTRA WORD!");
+      let isWord: boolean;
+      try {
+        isWord = await engine.isValidWord(word);
+      } catch (err) {
+        console.error("❌ App: Failed to check word:", err);
+        showTemporaryMessage("COULD NOT CHECK");
+        return;
+      }
+      // The level may have moved on or ended, or the word been counted, while the worker answered.
+      const current = levelRef.current;
+      if (!current || current.seed !== level.seed || current.extraWords.has(word)) return;
+      if (gameStateRef.current !== GameState.PLAYING) return;
+
+      if (isWord) {
+        const updatedExtra = new Set(current.extraWords);
+        updatedExtra.add(word);
+        const newLevel = { ...current, extraWords: updatedExtra };
+        levelRef.current = newLevel;
+        setLevel(newLevel);
+        reportGuess(GuessOutcome.EXTRA, word);
+
+        if (!rules.isScored) {
+          // Zen: nothing to earn, hints are already free.
+          showTemporaryMessage("EXTRA WORD!", true);
+          return;
+        }
+        // Counted from the latest meter: other extras may have landed since this render.
+        const filled = bonusProgressRef.current + 1 >= BONUS_METER_SIZE;
+        bonusProgressRef.current = filled ? 0 : bonusProgressRef.current + 1;
+        scoreRef.current += 10;
         setScore(prev => prev + 10);
+        setBonusProgress(prev => filled ? 0 : prev + 1);
+        if (filled) {
+          setFreeHints(prev => prev + 1);
+          showTemporaryMessage("FREE HINT!", true);
+        } else {
+          showTemporaryMessage("EXTRA WORD!", true);
+        }
       } else {
+        reportGuess(GuessOutcome.INVALID, word);
         showTemporaryMessage("NOPE");
+        offerReport(word);
       }
     }
   };
 
   const handleHelp = () => {
-    if (!level || score < 25) {
-      showTemporaryMessage("NEED 25 SCORE");
+    if (!level || gameState !== GameState.PLAYING) return;
+    if (pendingHint) {
+      setPendingHint(null);
+      setMessage("");
       return;
     }
+    setShowHintMenu(prev => !prev);
+  };
 
-    const hiddenCells: { x: number, y: number }[] = [];
-    const visibleCoords = new Set<string>();
-    
-    level.placedWords.forEach(pw => {
-      const isFound = level.foundWords.has(pw.word);
-      const hints = revealedIndices[pw.word] || [];
-      for (let i = 0; i < pw.word.length; i++) {
-        const cx = pw.direction === 'horizontal' ? pw.x + i : pw.x;
-        const cy = pw.direction === 'horizontal' ? pw.y : pw.y + i;
-        if (isFound || hints.includes(i)) {
-          visibleCoords.add(`${cx},${cy}`);
-        }
-      }
-    });
+  const handleHintSelect = (type: HintType) => {
+    setShowHintMenu(false);
+    if (!rules.freeHints && freeHints === 0 && score < DEFAULT_HINT_COSTS[type]) {
+      showTemporaryMessage(`NEED ${DEFAULT_HINT_COSTS[type]} SCORE`);
+      return;
+    }
+    if (TARGETED_HINTS.has(type)) {
+      setPendingHint(type);
+      setMessage("TAP A WORD");
+      return;
+    }
+    spendHint(type);
+  };
 
-    level.placedWords.forEach(pw => {
-      for (let i = 0; i < pw.word.length; i++) {
-        const cx = pw.direction === 'horizontal' ? pw.x + i : pw.x;
-        const cy = pw.direction === 'horizontal' ? pw.y : pw.y + i;
-        const key = `${cx},${cy}`;
-        if (!visibleCoords.has(key)) {
-          if (!hiddenCells.some(c => c.x === cx && c.y === cy)) {
-            hiddenCells.push({ x: cx, y: cy });
-          }
-        }
-      }
-    });
+  // Only words the player can already see can be reported, so a report never gives one away.
+  const handleCellLongPress = (cell: string) => {
+    if (!level || pendingHint) return;
+    const words = level.placedWords
+      .filter(pw => level.foundWords.has(pw.word) && wordCells(pw).includes(cell))
+      .map(pw => pw.word);
+    if (words.length > 0) setReportDraft({ kind: 'grid', words });
+  };
 
-    if (hiddenCells.length === 0) return;
-
-    const target = hiddenCells[Math.floor(Math.random() * hiddenCells.length)];
-    setRevealedIndices(prev => {
-      const next = { ...prev };
-      level.placedWords.forEach(pw => {
-        for (let i = 0; i < pw.word.length; i++) {
-          const cx = pw.direction === 'horizontal' ? pw.x + i : pw.x;
-          const cy = pw.direction === 'horizontal' ? pw.y : pw.y + i;
-          if (cx === target.x && cy === target.y) {
-            next[pw.word] = [...(next[pw.word] || []), i];
-          }
-        }
+  // Keeps the report button up for a few seconds after a rejection; null takes it down.
+  const offerReport = (word: string | null) => {
+    clearTimeout(rejectedGuessTimer.current);
+    setRejectedGuess(word);
+    if (word) rejectedGuessTimer.current = setTimeout(() => setRejectedGuess(null), REPORT_OFFER_MS);
+  };
+
+  const submitReport = (word: string, updateLists: boolean) => {
+    if (!level || !reportDraft) return;
+    const number = puzzleSource === PuzzleSource.ENDLESS ? levelNumber : activePack ? activePack.index + 1 : null;
+    queueWordReport(createWordReport(reportDraft.kind, word, level, puzzleSource, number));
+    if (updateLists) {
+      const lists = addPlayerWord(loadPlayerWordLists(level.language), reportDraft.kind === 'grid' ? 'blocked' : 'allowed', word);
+      savePlayerWordLists(level.language, lists);
+      if (level.language === language) changeWordLists(lists);
+    }
+    setReportDraft(null);
+    offerReport(null);
+    showTemporaryMessage("REPORTED", true);
+  };
+
+  const handleCellTap = (cell: string) => {
+    if (!level) return;
+    if (!pendingHint) {
+      const words = level.placedWords
+        .filter(pw => level.foundWords.has(pw.word) && wordCells(pw).includes(cell))
+        .map(pw => pw.word);
+      setDefinedWords(words);
+      return;
+    }
+    const type = pendingHint;
+    setPendingHint(null);
+    setMessage("");
+    spendHint(type, cell);
+  };
+
+  const spendHint = (type: HintType, targetCell?: string) => {
+    if (!level) return;
+    const outcome = applyHint(level, hints, type, targetCell);
+    if (!outcome) {
+      showTemporaryMessage("NOTHING TO REVEAL");
+      return;
+    }
+
+    const useFreeHint = !rules.freeHints && freeHints > 0;
+    const cost = rules.freeHints || useFreeHint ? 0 : DEFAULT_HINT_COSTS[type];
+    if (useFreeHint) {
+      setFreeHints(prev => prev - 1);
+    } else if (cost > 0) {
+      scoreRef.current = Math.max(0, scoreRef.current - cost);
+      setScore(prev => Math.max(0, prev - cost));
+    }
+    setHints(outcome.hints);
+    recordHint();
+
+    if (outcome.solvedWords.length > 0) {
+      // Fully revealed words count as found, without points.
+      const updatedFound = new Set(level.foundWords);
+      const updatedRevealed = new Set(level.revealedWords);
+      outcome.solvedWords.forEach(word => {
+        updatedFound.add(word);
+        updatedRevealed.add(word);
       });
-      return next;
-    });
+      const newLevel = { ...level, foundWords: updatedFound, revealedWords: updatedRevealed };
+      setLevel(newLevel);
+      if (updatedFound.size === level.validWords.length) {
+        finishLevel(newLevel, scoreRef.current, false, outcome.hints);
+      }
+    }
+  };
+
+  const revealRemainingWords = () => {
+    if (!level) return;
+    setIsSkipped(true);
+    const allFound = new Set(level.validWords);
+    const revealedWords = new Set([...level.revealedWords, ...level.validWords.filter(word => !level.foundWords.has(word))]);
+    setLevel({ ...level, foundWords: allFound, revealedWords });
+  };
 
-    setScore(prev => Math.max(0, prev - 25));
+  // Saved with progress through displayLetters; the wheel keeps any selection on the same tiles.
+  const shuffleLetters = () => {
+    setDisplayLetters(letters => reshuffle(letters, createRng(randomSeed())));
   };
 
   const handleGiveUp = () => {
     if (!level || gameState !== GameState.PLAYING) return;
-    setIsSkipped(true);
-    const allFound = new Set(level.validWords);
-    setLevel({ ...level, foundWords: allFound });
-    setGameState(GameState.LEVEL_COMPLETE);
+    revealRemainingWords();
+    finishLevel(level, scoreRef.current, true);
+  };
+
+  // Time attack ran out: like giving up, except the level counts as failed.
+  const failLevel = () => {
+    if (!level) return;
+    revealRemainingWords();
+    recordFinishedLevel(typedWords(level), scoreRef.current, true, hints);
+    gameStateRef.current = GameState.LEVEL_FAILED;
+    setGameState(GameState.LEVEL_FAILED);
+  };
+
+  // Deals the same grid again with nothing found, at the same level number.
+  const retryLevel = () => {
+    if (!level) return;
+    showLevel({ ...level, foundWords: new Set(), extraWords: new Set(), revealedWords: new Set() });
   };
 
   const showTemporaryMessage = (msg: string, isPositive: boolean = false) => {
     setMessage(msg);
-    setTimeout(() => setMessage(""), 1500);
+    setIsMessagePositive(isPositive);
+    clearTimeout(messageTimer.current);
+    messageTimer.current = setTimeout(() => setMessage(""), 1500);
   };
 
   const nextLevel = () => {
-    if (!isSkipped) {
-      setLevelNumber(prev => prev + 1);
+    if (activePack) {
+      const index = activePack.index + 1;
+      if (index >= activePack.pack.levels.length) {
+        returnToEndless();
+        showTemporaryMessage("PACK COMPLETE", true);
+        return;
+      }
+      setActivePack({ ...activePack, index });
+      showLevel(fromLevelFile(activePack.pack.levels[index]));
+      return;
     }
-    const nextLen = Math.min(7, Math.max(5, (level?.rootLetters.length || 5) + (Math.random() > 0.7 ? 1 : 0)));
-    loadNewLevel(nextLen);
+    const nextNumber = isSkipped && rules.replayAfterGiveUp ? levelNumber : levelNumber + 1;
+    setLevelNumber(nextNumber);
+    attemptLoad("load the next level", () => loadEndlessLevel(nextNumber));
   };
 
   if (gameState === GameState.LOADING) {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-[#042f2e] text-white p-8">
-        <div className="w-16 h-16 border-4 border-teal-400 border-t-transparent rounded-full animate-spin mb-6"></div>
-        <h1 className="text-3xl font-black tracking-tighter text-teal-300">WORDFLOW</h1>
-        <p className="text-teal-400/60 mt-2 text-xs uppercase tracking-[0.3em] font-bold animate-pulse">Preparing Puzzle</p>
+      <div className="flex flex-col items-center justify-center min-h-screen bg-canvas text-ink p-8">
+        {loadFailure ? (
+          <>
+            <h1 className="text-3xl font-black tracking-tighter text-accent-300 mb-2">WORDFLOW</h1>
+            <p role="alert" className="text-accent-400/60 text-xs uppercase tracking-[0.3em] font-bold mb-6">Couldn't load the puzzle</p>
+            <button
+              onClick={loadFailure}
+              className="bg-accent-700 hover:bg-accent-600 text-ink font-black px-8 py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform"
+            >
+              Retry
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="w-16 h-16 border-4 border-accent-400 border-t-transparent rounded-full animate-spin mb-6"></div>
+            <h1 className="text-3xl font-black tracking-tighter text-accent-300">WORDFLOW</h1>
+            <p className="text-accent-400/60 mt-2 text-xs uppercase tracking-[0.3em] font-bold animate-pulse">Preparing Puzzle</p>
+          </>
+        )}
       </div>
     );
   }
 
-  const isLevelFinished = gameState === GameState.LEVEL_COMPLETE;
+  if (showEditor) {
+    return (
+      <LevelEditor
+        language={language}
+        onPlay={(pack) => { setShowEditor(false); startPack(pack); }}
+        onClose={() => setShowEditor(false)}
+      />
+    );
+  }
+
+  const isDaily = puzzleSource === PuzzleSource.DAILY;
+  const isEndless = puzzleSource === PuzzleSource.ENDLESS;
+  const isFailed = gameState === GameState.LEVEL_FAILED;
+  const isLevelFinished = gameState === GameState.LEVEL_COMPLETE || gameState === GameState.DAILY_COMPLETE || isFailed;
+  const hintsAreFree = rules.freeHints || freeHints > 0;
 
   return (
-    <div className="flex flex-col h-screen bg-transparent text-white overflow-hidden safe-top safe-bottom select-none">
+    <div className="flex flex-col h-screen bg-transparent text-ink overflow-hidden safe-top safe-bottom select-none">
+      {/* Announces feedback from showTemporaryMessage to screen readers */}
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {message || (isLevelFinished ? (isDaily ? "Daily puzzle complete" : isFailed ? "Time's up" : "Level complete") : "")}
+      </div>
       {/* Header */}
       <div className="flex justify-between items-center px-6 py-4 shrink-0 z-50 glass border-none shadow-none bg-transparent">
         <div className="flex flex-col">
-          <h1 className="text-2xl font-black tracking-tighter text-white leading-none">WORDFLOW</h1>
-          <span className="text-[10px] font-black tracking-widest text-teal-300 uppercase mt-1">LEVEL {levelNumber}</span>
+          <h1 className="text-2xl font-black tracking-tighter text-ink leading-none">WORDFLOW</h1>
+          <span className="text-[10px] font-black tracking-widest text-accent-300 uppercase mt-1">
+            {isDaily ? `DAILY ${dailyKey}` : activePack ? `PACK ${activePack.index + 1}/${activePack.pack.levels.length}` : `LEVEL ${levelNumber}`}
+          </span>
+          {activePack?.pack.title && (
+            <span className="text-[9px] font-bold tracking-widest text-accent-300/40 uppercase mt-0.5">{activePack.pack.title}</span>
+          )}
+          {level && isEndless && (
+            <span className="text-[9px] font-bold tracking-widest text-accent-300/40 uppercase mt-0.5 select-text">SEED {level.seed}</span>
+          )}
+        </div>
+        <div className="flex flex-col items-center gap-1.5">
+          <div className="flex gap-1.5">
+            <button
+              onClick={isEndless ? startDaily : returnToEndless}
+              className="px-3 py-1.5 rounded-full glass text-[10px] font-black tracking-widest text-accent-300 uppercase active:scale-90 transition-transform"
+            >
+              {isEndless ? "📅 Daily" : "∞ Endless"}
+            </button>
+            <button
+              onClick={() => setShowStats(true)}
+              aria-label="Statistics"
+              className="px-2.5 py-1.5 rounded-full glass text-[10px] active:scale-90 transition-transform"
+            >
+              📊
+            </button>
+            <button
+              onClick={() => setShowPacks(true)}
+              aria-label="Level packs"
+              className="px-2.5 py-1.5 rounded-full glass text-[10px] active:scale-90 transition-transform"
+            >
+              📦
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              aria-label="Settings"
+              className="px-2.5 py-1.5 rounded-full glass text-[10px] active:scale-90 transition-transform"
+            >
+              ⚙️
+            </button>
+          </div>
+          <select
+            value={language}
+            onChange={(e) => { if (isLanguageCode(e.target.value)) changeLanguage(e.target.value); }}
+            disabled={!isEndless}
+            aria-label="Language"
+            className="bg-transparent text-[10px] font-black tracking-widest text-accent-300/70 uppercase outline-none disabled:opacity-40"
+          >
+            {Object.values(LANGUAGES).map(lang => (
+              <option key={lang.code} value={lang.code} className="bg-canvas text-ink normal-case">{lang.name}</option>
+            ))}
+          </select>
+          <select
+            value={gameMode}
+            onChange={(e) => { if (isGameMode(e.target.value)) changeMode(e.target.value); }}
+            disabled={!isEndless}
+            aria-label="Game mode"
+            className="bg-transparent text-[10px] font-black tracking-widest text-accent-300/70 uppercase outline-none disabled:opacity-40"
+          >
+            {Object.values(GameMode).map(mode => (
+              <option key={mode} value={mode} className="bg-canvas text-ink normal-case">{MODE_RULES[mode].label}</option>
+            ))}
+          </select>
         </div>
         <div className="text-right">
-          <p className="text-[10px] text-teal-300/50 font-bold uppercase tracking-widest leading-none mb-1">Score</p>
-          <p className="text-3xl font-black text-teal-300 leading-none drop-shadow-lg">{score}</p>
+          {rules.isScored ? (
+            <>
+              <p className="text-[10px] text-accent-300/50 font-bold uppercase tracking-widest leading-none mb-1">Score</p>
+              <p className="text-3xl font-black text-accent-300 leading-none drop-shadow-lg">{score}</p>
+            </>
+          ) : (
+            <>
+              <p className="text-[10px] text-accent-300/50 font-bold uppercase tracking-widest leading-none mb-1">Mode</p>
+              <p className="text-2xl font-black text-accent-300 leading-none drop-shadow-lg uppercase">Zen</p>
+            </>
+          )}
+          {timeLeft !== null && (
+            <p
+              role="timer"
+              aria-label={`${timeLeft} seconds left`}
+              className={`text-sm font-black leading-none mt-1 tabular-nums ${timeLeft <= 10 ? 'text-danger animate-pulse' : 'text-accent-50/80'}`}
+            >
+              ⏱ {formatDuration(timeLeft * 1000)}
+            </p>
+          )}
         </div>
       </div>
 
       {/* Main Grid Area */}
       <div className="flex-1 overflow-hidden relative">
-        {level && <CrosswordGrid level={level} revealedIndices={revealedIndices} />}
+        {level && (
+          <CrosswordGrid
+            level={level}
+            hints={hints}
+            isSelectingWord={pendingHint !== null}
+            onCellTap={handleCellTap}
+            onCellLongPress={handleCellLongPress}
+          />
+        )}
+
+        {definedWords.length > 0 && (
+          <DefinitionCard words={definedWords} language={level?.language ?? language} onClose={() => setDefinedWords([])} />
+        )}
+
+        {level && !isLevelFinished && (
+          <button
+            onClick={() => setShowBonusWords(true)}
+            aria-label={`Bonus words: ${level.extraWords.size} found, meter ${bonusProgress} of ${BONUS_METER_SIZE}`}
+            className="absolute top-3 right-4 z-40 flex flex-col items-center gap-1 px-3 py-2 rounded-2xl glass active:scale-90 transition-transform"
+          >
+            <span key={bonusPulse} className={`text-sm font-black text-accent-300 ${bonusPulse > 0 ? 'animate-success' : ''}`}>⭐ {level.extraWords.size}</span>
+            <span className="w-10 h-1 rounded-full bg-accent-950/60 overflow-hidden">
+              <span
+                className="block h-full bg-accent-300 transition-all duration-300"
+                style={{ width: `${(bonusProgress / BONUS_METER_SIZE) * 100}%` }}
+              />
+            </span>
+          </button>
+        )}
+
+        {level && showBonusWords && (
+          <BonusWordsPanel words={[...level.extraWords]} language={level.language} onClose={() => setShowBonusWords(false)} />
+        )}
+
+        {celebration && (
+          <LevelCelebration
+            title={activePack ? `Pack level ${activePack.index + 1} clear` : `Level ${levelNumber} clear`}
+            summary={celebration}
+            onClose={() => setCelebration(null)}
+          />
+        )}
+
+        {reportDraft && (
+          <ReportWordDialog
+            kind={reportDraft.kind}
+            words={reportDraft.words}
+            language={level?.language ?? language}
+            onSubmit={submitReport}
+            onClose={() => setReportDraft(null)}
+          />
+        )}
+
+        {showStats && <StatsPanel onClose={() => setShowStats(false)} />}
+
+        {showSettings && (
+          <SettingsPanel
+            language={language}
+            onWordListsChange={changeWordLists}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {showPacks && (
+          <PackPanel
+            language={language}
+            activePack={activePack}
+            exportPack={level ? createLevelPack([toLevelFile(level)]) : null}
+            canLoad={!isDaily}
+            onLoad={startPack}
+            onLeave={() => { setShowPacks(false); returnToEndless(); }}
+            onOpenEditor={() => { setShowPacks(false); setShowEditor(true); }}
+            onClose={() => setShowPacks(false)}
+          />
+        )}
         
-        {isLevelFinished && !message && (
+        {isLevelFinished && !message && !celebration && (
           <div className="absolute top-10 left-1/2 -translate-x-1/2 animate-pop z-50 pointer-events-none">
-            <div className="bg-teal-700 px-6 py-2 rounded-full shadow-2xl shadow-teal-950/50 border border-teal-400/50">
-              <span className="text-sm font-black text-white uppercase tracking-[0.2em]">
-                {isSkipped ? "SOLVED" : "CHAPTER CLEAR"}
+            <div className="bg-accent-700 px-6 py-2 rounded-full shadow-2xl shadow-accent-950/50 border border-accent-400/50">
+              <span className="text-sm font-black text-ink uppercase tracking-[0.2em]">
+                {isDaily ? "DAILY DONE" : isFailed ? "TIME'S UP" : isSkipped ? "SOLVED" : "CHAPTER CLEAR"}
               </span>
             </div>
           </div>
@@ -190,43 +926,83 @@ const App: React.FC = () => {
       </div>
 
       {/* Bottom Control Section */}
-      <div className="flex flex-col items-center pb-2 shrink-0 z-50 bg-[#042f2e]/40 backdrop-blur-sm pt-2">
+      <div className="flex flex-col items-center pb-2 shrink-0 z-50 bg-canvas/40 backdrop-blur-sm pt-2">
         
         {/* Word Preview */}
         <div className="h-10 flex items-center justify-center mb-1 px-4">
           {!isLevelFinished ? (
             <div className={`text-2xl font-black tracking-[0.2em] uppercase transition-all duration-200 transform
-              ${currentGuess ? 'text-white scale-110 drop-shadow-[0_0_15px_rgba(45,212,191,0.4)]' : 'text-teal-900/40 scale-100'}
+              ${currentGuess ? 'text-ink scale-110 drop-shadow-[0_0_15px_rgb(var(--accent-400)/0.4)]' : 'text-accent-900/40 scale-100'}
             `}>
               {currentGuess || "••••"}
             </div>
           ) : null}
         </div>
 
+        {updateReady && isLevelFinished && !celebration && (
+          <div className="w-full max-w-[min(90vw,360px)] px-4 mb-1 animate-pop">
+            <div className="flex items-center justify-between gap-3 rounded-2xl glass px-4 py-2">
+              <span className="text-[10px] font-black tracking-widest text-accent-300 uppercase">New version ready</span>
+              <button
+                onClick={applyUpdate}
+                className="bg-accent-600 text-ink font-black px-4 py-1.5 rounded-full text-[10px] uppercase tracking-widest active:scale-95 transition-transform"
+              >
+                Update
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Wheel & Corner Buttons Container */}
         <div className="relative w-full max-w-[min(90vw,360px)] flex flex-col items-center">
           
           {/* Action Buttons - These remain as they were requested to be excluded from the theme shift */}
           {!isLevelFinished && (
             <div className="absolute top-0 w-full z-30 pointer-events-none flex justify-between px-2">
+              {showHintMenu && (
+                <HintMenu
+                  costs={DEFAULT_HINT_COSTS}
+                  score={score}
+                  isFree={hintsAreFree}
+                  onSelect={handleHintSelect}
+                  onClose={() => setShowHintMenu(false)}
+                />
+              )}
+
               <button 
                 onClick={handleHelp}
-                className="w-12 h-12 rounded-full glass pointer-events-auto flex items-center justify-center shadow-lg active:scale-90 transition-transform"
+                aria-label={pendingHint ? "Cancel hint" : rules.freeHints ? "Hints, free" : freeHints > 0 ? `Hints, ${freeHints} free` : "Hints"}
+                aria-expanded={showHintMenu}
+                className="relative w-12 h-12 rounded-full glass pointer-events-auto flex items-center justify-center shadow-lg active:scale-90 transition-transform"
               >
                 <span className="text-xl">💡</span>
+                {freeHints > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-accent-300 text-accent-950 text-[10px] font-black flex items-center justify-center">
+                    {freeHints}
+                  </span>
+                )}
               </button>
 
               {/* Feedback Message */}
-              <div className="flex-1 flex items-center justify-center px-2">
+              <div className="flex-1 flex flex-col items-center justify-center gap-1 px-2">
                 {message && (
-                  <div className="px-3 py-1 rounded-full glass animate-pop">
-                    <span className="text-[10px] font-black text-teal-300 uppercase tracking-[0.15em]">{message}</span>
+                  <div className={`px-3 py-1 rounded-full animate-pop ${isMessagePositive ? 'bg-accent-600/80 border border-accent-300/50' : 'glass'}`}>
+                    <span className={`text-[10px] font-black uppercase tracking-[0.15em] ${isMessagePositive ? 'text-ink' : 'text-accent-300'}`}>{message}</span>
                   </div>
                 )}
+                {rejectedGuess && (
+                  <button
+                    onClick={() => setReportDraft({ kind: 'rejected', words: [rejectedGuess] })}
+                    className="pointer-events-auto px-3 py-1 rounded-full glass text-[10px] font-black uppercase tracking-[0.15em] text-accent-200 underline underline-offset-2 active:scale-95 transition-transform"
+                  >
+                    Real word?
+                  </button>
+                )}
               </div>
 
               <button 
                 onClick={handleGiveUp}
+                aria-label="Give up and reveal all words"
                 className="w-12 h-12 rounded-full glass pointer-events-auto flex items-center justify-center shadow-lg active:scale-90 transition-transform"
               >
                 <span className="text-xl">🏳️</span>
@@ -234,15 +1010,62 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {!isLevelFinished && (
+            <div className="absolute bottom-0 w-full z-30 pointer-events-none flex justify-between px-2">
+              <button
+                onClick={shuffleLetters}
+                aria-label="Shuffle letters"
+                className="w-10 h-10 rounded-full glass pointer-events-auto flex items-center justify-center shadow-lg active:scale-90 transition-transform"
+              >
+                <span className="text-lg">🔀</span>
+              </button>
+
+              <button
+                onClick={() => handleWordComplete(lastGuess)}
+                disabled={!lastGuess}
+                aria-label={lastGuess ? `Repeat ${lastGuess}` : "Repeat last word"}
+                className="w-10 h-10 rounded-full glass pointer-events-auto flex items-center justify-center shadow-lg active:scale-90 transition-transform disabled:opacity-40"
+              >
+                <span className="text-lg">↺</span>
+              </button>
+            </div>
+          )}
+
           {/* Letter Wheel or Next Button */}
           <div className="w-full flex items-center justify-center">
-            {isLevelFinished ? (
-              <div className="w-full animate-pop flex flex-col items-center px-4 pb-6 pt-4">
+            {gameState === GameState.DAILY_COMPLETE ? (
+              <div className="w-full animate-pop flex flex-col items-center gap-3 px-4 pb-6 pt-4">
+                {dailyResult && (
+                  <pre className="w-full glass rounded-3xl px-5 py-4 text-sm font-bold text-accent-50 text-center whitespace-pre-wrap font-[inherit] select-text">
+                    {formatResultCard(dailyResult)}
+                  </pre>
+                )}
+                <div className="w-full flex gap-3">
+                  <button
+                    onClick={copyDailyResult}
+                    className="flex-1 bg-accent-700 hover:bg-accent-600 text-ink font-black py-4 rounded-[2rem] text-lg shadow-2xl shadow-accent-950/30 transition-all active:scale-95 uppercase tracking-tight"
+                  >
+                    Copy Result
+                  </button>
+                  <button
+                    onClick={returnToEndless}
+                    className="flex-1 glass text-accent-50 font-black py-4 rounded-[2rem] text-lg transition-all active:scale-95 uppercase tracking-tight"
+                  >
+                    Endless
+                  </button>
+                </div>
+                {message && (
+                  <span className="text-[10px] font-black text-accent-300 uppercase tracking-[0.15em]">{message}</span>
+                )}
+              </div>
+            ) : isLevelFinished ? (
+              <div className="w-full animate-pop flex flex-col items-center gap-3 px-4 pb-6 pt-4">
+                {level && <WordReview level={level} />}
                 <button
-                  onClick={nextLevel}
-                  className="w-full bg-teal-700 hover:bg-teal-600 text-white font-black py-6 rounded-[2.5rem] text-2xl shadow-2xl shadow-teal-950/30 transition-all active:scale-95 uppercase tracking-tight"
+                  onClick={isFailed ? retryLevel : nextLevel}
+                  className="w-full bg-accent-700 hover:bg-accent-600 text-ink font-black py-6 rounded-[2.5rem] text-2xl shadow-2xl shadow-accent-950/30 transition-all active:scale-95 uppercase tracking-tight"
                 >
-                  Next Puzzle
+                  {isFailed ? "Retry Level" : "Next Puzzle"}
                 </button>
               </div>
             ) : (
@@ -253,6 +1076,9 @@ const App: React.FC = () => {
                     currentWord={currentGuess}
                     setCurrentWord={setCurrentGuess}
                     onWordComplete={handleWordComplete}
+                    keyboardEnabled={!showBonusWords && !showHintMenu && !showStats && !showPacks && !showSettings && !reportDraft}
+                    highlightedIndices={hints.showStartingLetters ? startingLetterIndices(level, displayLetters) : []}
+                    locale={getLanguage(level.language).locale}
                   />
                 </div>
               )
@@ -0,0 +1,46 @@
+import React from 'react';
+import { LanguageCode, getLanguage, toDisplayCase } from '../services/languages.ts';
+
+interface BonusWordsPanelProps {
+  words: string[];
+  language: LanguageCode;
+  onClose: () => void;
+}
+
+const BonusWordsPanel: React.FC<BonusWordsPanelProps> = ({ words, language, onClose }) => {
+  const { locale } = getLanguage(language);
+  const sorted = [...words].sort();
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-canvas/70 backdrop-blur-sm animate-pop"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bonus-words-title"
+        className="w-[min(85vw,320px)] max-h-[70%] flex flex-col rounded-3xl glass p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="bonus-words-title" className="text-sm font-black tracking-[0.2em] text-accent-300 uppercase">Bonus Words</h2>
+          <button onClick={onClose} aria-label="Close" autoFocus className="text-accent-300/70 font-black text-lg leading-none active:scale-90">✕</button>
+        </div>
+        {sorted.length === 0 ? (
+          <p className="text-xs font-bold text-accent-300/50 uppercase tracking-widest text-center py-6">None found yet</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2 overflow-y-auto">
+            {sorted.map(word => (
+              <li key={word} className="px-3 py-1 rounded-full bg-accent-900/60 border border-accent-500/30 text-sm font-black tracking-widest">
+                {toDisplayCase(word, locale)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BonusWordsPanel;
@@ -1,25 +1,57 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { LevelData } from '../types.ts';
+import { GuessOutcome, HintState, LevelData } from '../types.ts';
+import { cellKey, wordCells } from '../services/hints.ts';
+import { getLanguage, toDisplayCase } from '../services/languages.ts';
+import { FILL_STEP_MS, onFeedback } from '../services/feedback.ts';
 
 interface CrosswordGridProps {
   level: LevelData;
-  revealedIndices: Record<string, number[]>;
+  hints: HintState;
+  // While true, tapping a cell picks the word a targeted hint applies to.
+  isSelectingWord?: boolean;
+  // Tap (not pan) on a letter cell, as an "x,y" key.
+  onCellTap?: (cell: string) => void;
+  // Press and hold on a letter cell (or its context-menu key); the tap that would follow is dropped.
+  onCellLongPress?: (cell: string) => void;
+  // Level editor: empty cells are tappable too, and markedCells are drawn as rule violations.
+  isEditing?: boolean;
+  markedCells?: Set<string>;
 }
 
-const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices }) => {
+// Pointer travel (px) below which a press counts as a tap rather than a pan.
+const TAP_SLOP = 6;
+const LONG_PRESS_MS = 550;
+
+const CrosswordGrid: React.FC<CrosswordGridProps> = ({
+  level, hints, isSelectingWord = false, onCellTap, onCellLongPress, isEditing = false, markedCells
+}) => {
   const { gridWidth, gridHeight, placedWords, foundWords } = level;
+  const { locale } = getLanguage(level.language);
   const containerRef = useRef<HTMLDivElement>(null);
   const gridRef = useRef<HTMLDivElement>(null);
   const [offset, setOffset] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const lastPos = useRef({ x: 0, y: 0 });
+  const pressStart = useRef<{ x: number; y: number; cell: string | null } | null>(null);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Animation delay per cell of the word just found, so it fills in along its direction.
+  const [fillDelays, setFillDelays] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => () => clearTimeout(longPressTimer.current), []);
 
   // Reset offset when level changes
   useEffect(() => {
     setOffset({ x: 0, y: 0 });
+    setFillDelays(new Map());
   }, [level.rootLetters]);
 
+  useEffect(() => onFeedback(event => {
+    if (event.type !== 'guess' || event.outcome !== GuessOutcome.VALID) return;
+    const found = placedWords.find(pw => pw.word === event.word);
+    if (found) setFillDelays(new Map(wordCells(found).map((key, i) => [key, i * FILL_STEP_MS])));
+  }), [placedWords]);
+
   const cellMap: (string | null)[][] = useMemo(() => {
     const map = Array.from({ length: gridHeight }, () => 
       Array.from({ length: gridWidth }, () => null)
@@ -28,11 +60,11 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
       for (let i = 0; i < pw.word.length; i++) {
         const curX = pw.direction === 'horizontal' ? pw.x + i : pw.x;
         const curY = pw.direction === 'horizontal' ? pw.y : pw.y + i;
-        map[curY][curX] = pw.word[i].toUpperCase();
+        map[curY][curX] = toDisplayCase(pw.word[i], locale);
       }
     });
     return map;
-  }, [gridWidth, gridHeight, placedWords]);
+  }, [gridWidth, gridHeight, placedWords, locale]);
 
   const cellStatus = useMemo(() => {
     const status = Array.from({ length: gridHeight }, () => 
@@ -41,7 +73,6 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
 
     placedWords.forEach(pw => {
       const isWordFound = foundWords.has(pw.word);
-      const hints = revealedIndices[pw.word] || [];
       
       for (let i = 0; i < pw.word.length; i++) {
         const curX = pw.direction === 'horizontal' ? pw.x + i : pw.x;
@@ -49,7 +80,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
 
         if (isWordFound) {
           status[curY][curX] = 'found';
-        } else if (hints.includes(i)) {
+        } else if (hints.revealedCells.has(cellKey(curX, curY))) {
           if (status[curY][curX] !== 'found') status[curY][curX] = 'hinted';
         } else {
           if (status[curY][curX] === 'empty') status[curY][curX] = 'hidden';
@@ -57,16 +88,48 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
       }
     });
     return status;
-  }, [gridWidth, gridHeight, placedWords, foundWords, revealedIndices]);
+  }, [gridWidth, gridHeight, placedWords, foundWords, hints]);
+
+  // Screen-reader view of the puzzle: one entry per slot, in reading order.
+  const slotDescriptions = useMemo(() => {
+    return [...placedWords]
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .map(pw => {
+        const letters = Array.from(pw.word, (char, i) => {
+          const curX = pw.direction === 'horizontal' ? pw.x + i : pw.x;
+          const curY = pw.direction === 'horizontal' ? pw.y : pw.y + i;
+          const status = cellStatus[curY][curX];
+          return status === 'found' || status === 'hinted' ? toDisplayCase(char, locale) : null;
+        });
+        const revealedCount = letters.filter(Boolean).length;
+        const slot = `${pw.direction === 'horizontal' ? 'Across' : 'Down'}, ${pw.word.length} letters, row ${pw.y + 1} column ${pw.x + 1}`;
+        const state = foundWords.has(pw.word)
+          ? `found, ${toDisplayCase(pw.word, locale)}`
+          : revealedCount > 0
+            ? `hidden, ${revealedCount} revealed: ${letters.map(l => l ?? 'blank').join(' ')}`
+            : 'hidden';
+        return { key: `${pw.direction}-${pw.x}-${pw.y}`, label: `${slot}: ${state}` };
+      });
+  }, [placedWords, foundWords, cellStatus, locale]);
 
   const handlePointerDown = (e: React.PointerEvent) => {
     setIsDragging(true);
     lastPos.current = { x: e.clientX, y: e.clientY };
+    const cell = (e.target as HTMLElement).closest<HTMLElement>('[data-cell]')?.dataset.cell ?? null;
+    pressStart.current = { x: e.clientX, y: e.clientY, cell };
     (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    if (cell && onCellLongPress) {
+      longPressTimer.current = setTimeout(() => {
+        pressStart.current = null;
+        onCellLongPress(cell);
+      }, LONG_PRESS_MS);
+    }
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
     if (!isDragging || !containerRef.current || !gridRef.current) return;
+    const start = pressStart.current;
+    if (!start || Math.hypot(e.clientX - start.x, e.clientY - start.y) >= TAP_SLOP) clearTimeout(longPressTimer.current);
     
     const dx = e.clientX - lastPos.current.x;
     const dy = e.clientY - lastPos.current.y;
@@ -85,8 +148,13 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
     }));
   };
 
-  const handlePointerUp = () => {
+  const handlePointerUp = (e: React.PointerEvent) => {
     setIsDragging(false);
+    clearTimeout(longPressTimer.current);
+    const start = pressStart.current;
+    pressStart.current = null;
+    if (!start?.cell || !onCellTap) return;
+    if (Math.hypot(e.clientX - start.x, e.clientY - start.y) < TAP_SLOP) onCellTap(start.cell);
   };
 
   const maxDim = Math.max(gridWidth, gridHeight);
@@ -96,14 +164,24 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
   return (
     <div 
       ref={containerRef}
+      role="region"
+      aria-label="Crossword"
       className="w-full h-full flex items-center justify-center overflow-visible touch-none cursor-grab active:cursor-grabbing"
       onPointerDown={handlePointerDown}
       onPointerMove={handlePointerMove}
       onPointerUp={handlePointerUp}
       onPointerCancel={handlePointerUp}
     >
+      <ul className="sr-only" aria-label={`Crossword words, ${foundWords.size} of ${placedWords.length} found`}>
+        {slotDescriptions.map(slot => <li key={slot.key}>{slot.label}</li>)}
+      </ul>
+
       <div 
         ref={gridRef}
+        role="grid"
+        aria-label={`Crossword grid, ${gridWidth} columns by ${gridHeight} rows`}
+        aria-rowcount={gridHeight}
+        aria-colcount={gridWidth}
         className="grid gap-1.5 transition-transform duration-75 ease-out will-change-transform"
         style={{
           gridTemplateColumns: `repeat(${gridWidth}, ${cellSize})`,
@@ -112,25 +190,55 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({ level, revealedIndices })
         }}
       >
         {cellMap.map((row, y) => (
-          row.map((char, x) => {
-            const status = cellStatus[y][x];
-            if (status === 'empty') return <div key={`${x}-${y}`} style={{ width: cellSize, height: cellSize }} />;
-
-            return (
-              <div
-                key={`${x}-${y}`}
-                style={{ width: cellSize, height: cellSize }}
-                className={`flex items-center justify-center rounded-lg text-[min(4vw,20px)] font-black transition-all duration-500 border no-select
-                  ${status === 'found' 
-                    ? 'bg-teal-600 border-teal-300 text-white animate-success shadow-lg shadow-teal-950/40 z-10' 
-                    : status === 'hinted'
-                      ? 'bg-teal-900/40 border-teal-700/50 text-teal-200/80'
-                      : 'bg-black/30 border-teal-400/30 text-transparent'}`}
-              >
-                {(status === 'found' || status === 'hinted') ? char : ''}
-              </div>
-            );
-          })
+          <div key={y} role="row" aria-rowindex={y + 1} className="contents">
+            {row.map((char, x) => {
+              const status = cellStatus[y][x];
+              if (status === 'empty' && !isEditing) {
+                return <div key={`${x}-${y}`} role="gridcell" aria-colindex={x + 1} aria-label="blank" style={{ width: cellSize, height: cellSize }} />;
+              }
+
+              // The cell-<status> class also carries the high-contrast theme's non-color cues.
+              const isVisible = status === 'found' || status === 'hinted';
+              const isMarked = markedCells?.has(cellKey(x, y)) ?? false;
+              const fillDelay = status === 'found' ? fillDelays.get(cellKey(x, y)) : undefined;
+              // Targeted hints pick unfound cells; otherwise found cells open their definition.
+              const isTappable = isEditing || (isSelectingWord ? status !== 'found' : status === 'found');
+              return (
+                <div
+                  key={`${x}-${y}`}
+                  role="gridcell"
+                  aria-colindex={x + 1}
+                  aria-label={status === 'empty' ? 'blank' : !isVisible ? 'hidden letter' : isMarked ? `${char}, breaks placement rules` : `${char}, ${status}`}
+                  data-cell={cellKey(x, y)}
+                  tabIndex={isTappable && onCellTap ? 0 : undefined}
+                  onKeyDown={(e) => {
+                    if (isTappable && onCellTap && (e.key === 'Enter' || e.key === ' ')) {
+                      e.preventDefault();
+                      onCellTap(cellKey(x, y));
+                    } else if (onCellLongPress && (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10'))) {
+                      e.preventDefault();
+                      onCellLongPress(cellKey(x, y));
+                    }
+                  }}
+                  onContextMenu={onCellLongPress ? (e) => e.preventDefault() : undefined}
+                  style={{ width: cellSize, height: cellSize, animationDelay: fillDelay !== undefined ? `${fillDelay}ms` : undefined }}
+                  className={`cell-${status} relative flex items-center justify-center rounded-lg text-[min(4vw,20px)] font-black transition-all duration-500 border no-select
+                    ${isSelectingWord && status !== 'found' ? 'cursor-pointer ring-2 ring-accent-300/60 animate-pulse' : ''}
+                    ${isMarked
+                      ? 'bg-danger/25 border-danger text-ink z-10'
+                      : status === 'empty'
+                        ? 'border-dashed border-accent-400/15 cursor-pointer'
+                        : status === 'found' 
+                          ? `bg-accent-600 border-accent-300 text-ink shadow-lg shadow-accent-950/40 z-10 ${fillDelay !== undefined ? 'animate-fill' : ''}`
+                          : status === 'hinted'
+                            ? 'bg-accent-900/40 border-accent-700/50 text-accent-200/80'
+                            : 'bg-shade/30 border-accent-400/30 text-transparent'}`}
+                >
+                  {isVisible ? char : ''}
+                </div>
+              );
+            })}
+          </div>
         ))}
       </div>
     </div>
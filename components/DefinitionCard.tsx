@@ -0,0 +1,41 @@
+import React from 'react';
+import { useDefinitions } from './useDefinitions.ts';
+import { LanguageCode, getLanguage, toDisplayCase } from '../services/languages.ts';
+
+interface DefinitionCardProps {
+  words: string[];
+  language: LanguageCode;
+  onClose: () => void;
+}
+
+const DefinitionCard: React.FC<DefinitionCardProps> = ({ words, language, onClose }) => {
+  const defs = useDefinitions(words, language);
+  const { locale } = getLanguage(language);
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Definition"
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-50 w-[min(88vw,340px)] rounded-3xl glass bg-canvas/80 px-5 py-4 shadow-2xl animate-pop"
+      onClick={onClose}
+    >
+      {words.map(word => {
+        const def = defs?.[word];
+        return (
+          <div key={word} className="mb-2 last:mb-0">
+            <p className="text-sm font-black tracking-widest text-ink">{toDisplayCase(word, locale)}</p>
+            <p className="text-xs text-accent-50/80 leading-snug">
+              {defs === undefined
+                ? '…'
+                : def
+                  ? <><em className="text-accent-300/70">{def.partOfSpeech}</em> {def.text}</>
+                  : 'No definition available'}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DefinitionCard;
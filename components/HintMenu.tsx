@@ -0,0 +1,53 @@
+import React from 'react';
+import { HintType } from '../types.ts';
+import { HINT_LABELS, HintCosts } from '../services/hints.ts';
+
+interface HintMenuProps {
+  costs: HintCosts;
+  score: number;
+  // The next hint costs nothing: a bonus-meter hint, or zen mode.
+  isFree: boolean;
+  onSelect: (type: HintType) => void;
+  onClose: () => void;
+}
+
+const HINT_ICONS: Record<HintType, string> = {
+  [HintType.LETTER]: '🔤',
+  [HintType.WORD]: '📖',
+  [HintType.FIRST_LETTERS]: '🅰️',
+  [HintType.STARTING_LETTERS]: '🎯'
+};
+
+const HintMenu: React.FC<HintMenuProps> = ({ costs, score, isFree, onSelect, onClose }) => {
+  return (
+    <div
+      role="menu"
+      aria-label="Hints"
+      className="absolute bottom-14 left-2 z-50 w-56 flex flex-col gap-1 p-2 rounded-3xl glass shadow-2xl animate-pop pointer-events-auto"
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      {(Object.values(HintType) as HintType[]).map(type => {
+        const affordable = isFree || score >= costs[type];
+        return (
+          <button
+            key={type}
+            role="menuitem"
+            disabled={!affordable}
+            onClick={() => onSelect(type)}
+            className="flex items-center justify-between gap-2 px-3 py-2 rounded-2xl text-left active:scale-95 transition-transform hover:bg-accent-900/40 disabled:opacity-40"
+          >
+            <span className="flex items-center gap-2 text-xs font-black uppercase tracking-wider">
+              <span aria-hidden="true">{HINT_ICONS[type]}</span>
+              {HINT_LABELS[type]}
+            </span>
+            <span className="text-[10px] font-black text-accent-300 tracking-widest">
+              {isFree ? 'FREE' : costs[type]}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HintMenu;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import LetterWheel from './LetterWheel.tsx';
+
+// On a 200px wheel the three tiles sit 68px from the centre and select within 28px.
+const TILES = {
+  C: { clientX: 100, clientY: 32 },
+  A: { clientX: 158.9, clientY: 134 },
+  T: { clientX: 41.1, clientY: 134 }
+};
+const BETWEEN = { clientX: 100, clientY: 100 };
+// Held outside the harness: a new array every render would reset the selection.
+const LETTERS = ['C', 'A', 'T'];
+
+const Harness: React.FC<{ letters?: string[]; onWordComplete: (word: string) => void }> = ({ letters = LETTERS, onWordComplete }) => {
+  const [currentWord, setCurrentWord] = useState("");
+  return (
+    <>
+      <output data-testid="current">{currentWord}</output>
+      <LetterWheel letters={letters} currentWord={currentWord} setCurrentWord={setCurrentWord} onWordComplete={onWordComplete} />
+    </>
+  );
+};
+
+const renderWheel = () => {
+  const onWordComplete = vi.fn();
+  const { rerender } = render(<Harness onWordComplete={onWordComplete} />);
+  const showLetters = (letters: string[]) => rerender(<Harness letters={letters} onWordComplete={onWordComplete} />);
+  return { onWordComplete, showLetters, current: () => screen.getByTestId('current').textContent };
+};
+
+const tile = (letter: string) => screen.getByRole('button', { name: `Letter ${letter}` });
+
+// jsdom has no PointerEvent, so send mouse events under pointer event names to keep the coordinates.
+const pointer = (type: string, target: Window | Element, point = { clientX: 0, clientY: 0 }) =>
+  fireEvent(target, new MouseEvent(type, { bubbles: true, cancelable: true, ...point }));
+const pressOn = (letter: keyof typeof TILES) => pointer('pointerdown', tile(letter), TILES[letter]);
+const moveTo = (point: { clientX: number; clientY: number }) => pointer('pointermove', window, point);
+const release = () => pointer('pointerup', window);
+
+beforeEach(() => {
+  vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+    { left: 0, top: 0, right: 200, bottom: 200, width: 200, height: 200, x: 0, y: 0, toJSON: () => ({}) }
+  );
+});
+
+afterEach(cleanup);
+
+describe('LetterWheel pointer selection', () => {
+  it('selects tiles along the drag and submits the word on release', () => {
+    const { onWordComplete, current } = renderWheel();
+
+    pressOn('C');
+    expect(current()).toBe('C');
+    moveTo(BETWEEN);
+    moveTo(TILES.A);
+    moveTo(TILES.T);
+    expect(current()).toBe('CAT');
+    expect(tile('T')).toHaveProperty('ariaPressed', 'true');
+
+    release();
+    expect(onWordComplete).toHaveBeenCalledExactlyOnceWith('cat');
+    expect(current()).toBe('');
+  });
+
+  it('drops the last tile when dragging back to the one before it', () => {
+    const { onWordComplete, current } = renderWheel();
+
+    pressOn('C');
+    moveTo(TILES.A);
+    moveTo(TILES.T);
+    moveTo(TILES.A);
+    expect(current()).toBe('CA');
+    expect(tile('T')).toHaveProperty('ariaPressed', 'false');
+
+    moveTo(TILES.C);
+    expect(current()).toBe('C');
+
+    release();
+    expect(onWordComplete).toHaveBeenCalledExactlyOnceWith('c');
+  });
+
+  it('does not reuse a tile or backtrack past the start', () => {
+    const { current } = renderWheel();
+
+    pressOn('A');
+    moveTo(TILES.T);
+    moveTo(TILES.C);
+    moveTo(TILES.A);
+    expect(current()).toBe('ATC');
+  });
+
+  it('ignores pointer moves once the drag has ended', () => {
+    const { onWordComplete, current } = renderWheel();
+
+    pressOn('C');
+    release();
+    moveTo(TILES.A);
+    release();
+
+    expect(current()).toBe('');
+    expect(onWordComplete).toHaveBeenCalledOnce();
+  });
+
+  it('cancels the path when released over the center', () => {
+    const { onWordComplete, current } = renderWheel();
+
+    pressOn('C');
+    moveTo(TILES.A);
+    moveTo(BETWEEN);
+    release();
+
+    expect(current()).toBe('');
+    expect(onWordComplete).not.toHaveBeenCalled();
+  });
+});
+
+describe('LetterWheel shuffle', () => {
+  it('keeps a typed selection on the same tiles after they move', () => {
+    const { onWordComplete, showLetters, current } = renderWheel();
+
+    fireEvent.keyDown(window, { key: 'c' });
+    fireEvent.keyDown(window, { key: 'a' });
+    showLetters(['A', 'T', 'C']);
+    expect(current()).toBe('CA');
+    expect(tile('C')).toHaveProperty('ariaPressed', 'true');
+    expect(tile('T')).toHaveProperty('ariaPressed', 'false');
+
+    fireEvent.keyDown(window, { key: 't' });
+    fireEvent.keyDown(window, { key: 'Enter' });
+    expect(onWordComplete).toHaveBeenCalledExactlyOnceWith('cat');
+  });
+
+  it('starts over when the letters change', () => {
+    const { showLetters, current } = renderWheel();
+
+    fireEvent.keyDown(window, { key: 'c' });
+    showLetters(['D', 'O', 'G']);
+    expect(current()).toBe('');
+  });
+});
+
+describe('LetterWheel typing', () => {
+  it('leaves keys alone while a select has focus', () => {
+    const { current } = renderWheel();
+    const { getByRole } = render(<select aria-label="Mode"><option>Endless</option></select>);
+
+    fireEvent.keyDown(getByRole('combobox', { name: 'Mode' }), { key: 'c' });
+    expect(current()).toBe('');
+  });
+});
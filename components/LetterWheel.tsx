@@ -1,18 +1,50 @@
 
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import { toDisplayCase, toWordCase } from '../services/languages.ts';
+import { REJECT_MS, onFeedback } from '../services/feedback.ts';
+import { feedbackManager } from '../services/feedbackManager.ts';
+import { GuessOutcome } from '../types.ts';
 
 interface LetterWheelProps {
   letters: string[];
   onWordComplete: (word: string) => void;
   currentWord: string;
   setCurrentWord: (word: string) => void;
+  // Typing letters selects tiles, Backspace removes the last, Enter submits, Escape clears.
+  keyboardEnabled?: boolean;
+  // Tiles to call out, e.g. letters that start an unfound word.
+  highlightedIndices?: number[];
+  // Case mapping for typed keys and submitted words.
+  locale?: string;
 }
 
-const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, currentWord, setCurrentWord }) => {
+// Where each tile went if `after` is `before` in another order, or null for different letters.
+// Repeated letters are matched in order; they look the same, so which one moved where is moot.
+const trackShuffle = (before: string[] | null, after: string[]): number[] | null => {
+  if (!before || before.length !== after.length) return null;
+  const taken = new Set<number>();
+  const moved = before.map(letter => {
+    const to = after.findIndex((other, i) => other === letter && !taken.has(i));
+    taken.add(to);
+    return to;
+  });
+  return moved.includes(-1) ? null : moved;
+};
+
+const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, currentWord, setCurrentWord, keyboardEnabled = true, highlightedIndices = [], locale = 'en' }) => {
   const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [pointerPos, setPointerPos] = useState<{ x: number; y: number } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  // The last submitted path, kept so a rejection can shake it after the selection is gone.
+  const lastSubmitted = useRef<{ word: string; indices: number[] } | null>(null);
+  const [rejectedIndices, setRejectedIndices] = useState<number[]>([]);
+  // Tiles keep their key through a shuffle, so they slide to their new places.
+  const [tileIds, setTileIds] = useState<number[]>(() => letters.map((_, i) => i));
+  const previousLetters = useRef<string[] | null>(null);
+  // Letting go over the center cancels the path instead of submitting it.
+  const [isOverCenter, setIsOverCenter] = useState(false);
 
   useEffect(() => {
     const updateSize = () => {
@@ -26,10 +58,50 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
     return () => window.removeEventListener('resize', updateSize);
   }, []);
 
+  // A shuffle carries the path to the tiles' new places, so the word stays the same. Any other
+  // change is a new set of tiles, and a typed selection outlives a single gesture, so drop it.
+  useLayoutEffect(() => {
+    const moved = trackShuffle(previousLetters.current, letters);
+    previousLetters.current = letters;
+    if (moved) {
+      const follow = (indices: number[]) => indices.map(i => moved[i]);
+      setTileIds(ids => {
+        const next = [...ids];
+        ids.forEach((id, i) => { next[moved[i]] = id; });
+        return next;
+      });
+      setSelectedIndices(follow);
+      setRejectedIndices(follow);
+      if (lastSubmitted.current) {
+        lastSubmitted.current = { ...lastSubmitted.current, indices: follow(lastSubmitted.current.indices) };
+      }
+      return;
+    }
+    setTileIds(letters.map((_, i) => i));
+    setSelectedIndices([]);
+    setCurrentWord("");
+  }, [letters]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = onFeedback(event => {
+      if (event.type !== 'guess' || event.word !== lastSubmitted.current?.word) return;
+      if (event.outcome !== GuessOutcome.INVALID && event.outcome !== GuessOutcome.TOO_SHORT) return;
+      setRejectedIndices(lastSubmitted.current.indices);
+      clearTimeout(timer);
+      timer = setTimeout(() => setRejectedIndices([]), REJECT_MS);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, []);
+
   const centerX = dimensions.width / 2;
   const centerY = dimensions.height / 2;
   const letterRadius = dimensions.width * 0.34;
   const selectionThreshold = dimensions.width * 0.14;
+  const cancelRadius = dimensions.width * 0.12;
 
   const letterPositions = useMemo(() => {
     if (dimensions.width === 0) return [];
@@ -52,11 +124,17 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
     });
   };
 
+  // Every path change goes through here, so the word and the tone follow the path.
+  const selectPath = useCallback((next: number[]) => {
+    setSelectedIndices(next);
+    setCurrentWord(next.map(idx => letters[idx]).join(''));
+    if (next.length > 0) feedbackManager.letterSelected(next.length);
+  }, [letters, setCurrentWord]);
+
   const handleStart = (index: number, clientX: number, clientY: number) => {
-    setSelectedIndices([index]);
-    setCurrentWord(letters[index]);
+    setIsDragging(true);
+    selectPath([index]);
     updatePointerPosition(clientX, clientY);
-    if (navigator.vibrate) navigator.vibrate(5);
   };
 
   const handleMove = useCallback((clientX: number, clientY: number) => {
@@ -66,44 +144,39 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
     const rect = containerRef.current.getBoundingClientRect();
     const x = clientX - rect.left;
     const y = clientY - rect.top;
+    setIsOverCenter(Math.hypot(x - centerX, y - centerY) < cancelRadius);
 
     letterPositions.forEach((pos) => {
       const dist = Math.sqrt(Math.pow(x - pos.x, 2) + Math.pow(y - pos.y, 2));
       if (dist < selectionThreshold) {
         if (!selectedIndices.includes(pos.index)) {
-          setSelectedIndices(prev => {
-            const next = [...prev, pos.index];
-            const word = next.map(idx => letters[idx]).join('');
-            setCurrentWord(word);
-            if (navigator.vibrate) navigator.vibrate(10);
-            return next;
-          });
+          selectPath([...selectedIndices, pos.index]);
         } else if (selectedIndices.length > 1 && selectedIndices[selectedIndices.length - 2] === pos.index) {
-          setSelectedIndices(prev => {
-            const next = prev.slice(0, -1);
-            const word = next.map(idx => letters[idx]).join('');
-            setCurrentWord(word);
-            return next;
-          });
+          selectPath(selectedIndices.slice(0, -1));
         }
       }
     });
-  }, [selectedIndices, letterPositions, letters, setCurrentWord, dimensions, selectionThreshold]);
+  }, [selectedIndices, letterPositions, selectPath, dimensions, selectionThreshold, centerX, centerY, cancelRadius]);
 
   const handleEnd = useCallback(() => {
-    if (selectedIndices.length > 0) {
-      onWordComplete(currentWord.toLowerCase());
+    if (selectedIndices.length > 0 && !isOverCenter) {
+      const word = toWordCase(currentWord, locale);
+      lastSubmitted.current = { word, indices: selectedIndices };
+      setRejectedIndices([]);
+      onWordComplete(word);
     }
     setSelectedIndices([]);
     setPointerPos(null);
+    setIsDragging(false);
+    setIsOverCenter(false);
     setCurrentWord("");
-  }, [selectedIndices, currentWord, onWordComplete, setCurrentWord]);
+  }, [selectedIndices, isOverCenter, currentWord, onWordComplete, setCurrentWord, locale]);
 
   useEffect(() => {
     const onGlobalMove = (e: PointerEvent) => handleMove(e.clientX, e.clientY);
     const onGlobalUp = () => handleEnd();
 
-    if (selectedIndices.length > 0) {
+    if (isDragging) {
       window.addEventListener('pointermove', onGlobalMove);
       window.addEventListener('pointerup', onGlobalUp);
     }
@@ -112,7 +185,45 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
       window.removeEventListener('pointermove', onGlobalMove);
       window.removeEventListener('pointerup', onGlobalUp);
     };
-  }, [selectedIndices.length, handleMove, handleEnd]);
+  }, [isDragging, handleMove, handleEnd]);
+
+  useEffect(() => {
+    if (!keyboardEnabled || isDragging) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+      if (e.key === 'Enter') {
+        if (selectedIndices.length === 0) return;
+        e.preventDefault();
+        handleEnd();
+      } else if (e.key === 'Backspace') {
+        if (selectedIndices.length === 0) return;
+        e.preventDefault();
+        selectPath(selectedIndices.slice(0, -1));
+      } else if (e.key === 'Escape') {
+        selectPath([]);
+      } else if (e.key.length === 1) {
+        // With duplicate letters, take the first tile of that letter not already in the path.
+        const typed = toDisplayCase(e.key, locale);
+        const index = letters.findIndex((letter, i) => letter === typed && !selectedIndices.includes(i));
+        if (index === -1) return;
+        e.preventDefault();
+        selectPath([...selectedIndices, index]);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [keyboardEnabled, isDragging, selectedIndices, letters, handleEnd, selectPath, locale]);
+
+  const pathThrough = (indices: number[]) => indices.map((idx, i) => {
+    const pos = letterPositions.find(p => p.index === idx);
+    if (!pos) return '';
+    return `${i === 0 ? 'M' : 'L'} ${pos.x} ${pos.y}`;
+  }).join(' ');
 
   const wheelSizeClass = "w-[min(48vw,192px)] h-[min(48vw,192px)]";
 
@@ -120,8 +231,14 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
     <div 
       className={`relative ${wheelSizeClass} mx-auto no-select touch-none`} 
       ref={containerRef}
+      role="group"
+      aria-label="Letter wheel"
+      aria-describedby="letter-wheel-help"
     >
-      <div className="absolute inset-0 rounded-full bg-teal-900/20 border-2 border-teal-500/20 backdrop-blur-sm shadow-2xl"></div>
+      <p id="letter-wheel-help" className="sr-only">
+        Type letters or press Space on a letter to add it. Backspace removes the last letter, Enter submits the word.
+      </p>
+      <div className="absolute inset-0 rounded-full bg-accent-900/20 border-2 border-accent-500/20 backdrop-blur-sm shadow-2xl"></div>
       
       <svg className="absolute inset-0 pointer-events-none w-full h-full overflow-visible z-10">
         <defs>
@@ -131,15 +248,25 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
           </filter>
         </defs>
         
+        {selectedIndices.length === 0 && rejectedIndices.length > 1 && (
+          <g className="animate-shake">
+            <path
+              d={pathThrough(rejectedIndices)}
+              fill="none"
+              stroke="rgb(var(--danger))"
+              strokeWidth={dimensions.width * 0.05}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="opacity-70"
+            />
+          </g>
+        )}
+
         {selectedIndices.length > 1 && (
           <path
-            d={selectedIndices.map((idx, i) => {
-              const pos = letterPositions.find(p => p.index === idx);
-              if (!pos) return '';
-              return `${i === 0 ? 'M' : 'L'} ${pos.x} ${pos.y}`;
-            }).join(' ')}
+            d={pathThrough(selectedIndices)}
             fill="none"
-            stroke="#2dd4bf"
+            stroke="rgb(var(--accent-400))"
             strokeWidth={dimensions.width * 0.05}
             strokeLinecap="round"
             strokeLinejoin="round"
@@ -154,7 +281,7 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
             y1={letterPositions.find(p => p.index === selectedIndices[selectedIndices.length - 1])?.y}
             x2={pointerPos.x}
             y2={pointerPos.y}
-            stroke="#2dd4bf"
+            stroke="rgb(var(--accent-400))"
             strokeWidth={dimensions.width * 0.05}
             strokeLinecap="round"
             className="opacity-40"
@@ -162,23 +289,46 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
         )}
       </svg>
 
+      {isDragging && selectedIndices.length > 0 && (
+        <div
+          aria-hidden="true"
+          className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full flex items-center justify-center font-black transition-all duration-150 pointer-events-none
+            ${isOverCenter ? 'bg-danger/30 border-2 border-danger text-danger scale-110' : 'border-2 border-accent-500/20 text-accent-300/30'}`}
+          style={{ width: cancelRadius * 2, height: cancelRadius * 2, fontSize: `${cancelRadius * 0.8}px` }}
+        >
+          ✕
+        </div>
+      )}
+
       {letterPositions.map((pos) => {
         const isSelected = selectedIndices.includes(pos.index);
         const isLast = selectedIndices[selectedIndices.length - 1] === pos.index;
+        const isHighlighted = !isSelected && highlightedIndices.includes(pos.index);
+        const isRejected = selectedIndices.length === 0 && rejectedIndices.includes(pos.index);
         const letterSize = dimensions.width * 0.22;
 
         return (
-          <div
-            key={`${pos.index}-${letters[pos.index]}`}
+          <button
+            type="button"
+            key={`${tileIds[pos.index] ?? pos.index}-${letters[pos.index]}`}
+            aria-label={`Letter ${letters[pos.index]}`}
+            aria-pressed={isSelected}
             onPointerDown={(e) => {
               e.preventDefault();
               handleStart(pos.index, e.clientX, e.clientY);
             }}
-            className={`absolute flex items-center justify-center rounded-full font-extrabold transition-all duration-300 transform cursor-pointer select-none
+            onClick={(e) => {
+              // Pointer gestures are handled above; only keyboard activation (detail 0) lands here.
+              if (e.detail !== 0 || isSelected) return;
+              selectPath([...selectedIndices, pos.index]);
+            }}
+            className={`absolute flex outline-none focus-visible:ring-4 focus-visible:ring-ink/70 items-center justify-center rounded-full font-extrabold transition-all duration-300 motion-reduce:transition-none transform cursor-pointer select-none
               ${isSelected 
-                ? 'bg-teal-500 text-white scale-110 shadow-[0_0_25px_rgba(45,212,191,0.6)] z-20' 
-                : 'bg-teal-950/60 text-teal-50 hover:bg-teal-900 border border-teal-500/30'}
-              ${isLast ? 'ring-4 ring-teal-300 ring-opacity-40' : ''}
+                ? 'bg-accent-500 text-ink scale-110 shadow-[0_0_25px_rgb(var(--accent-400)/0.6)] z-20' 
+                : 'bg-accent-950/60 text-accent-50 hover:bg-accent-900 border border-accent-500/30'}
+              ${isLast ? 'ring-4 ring-accent-300 ring-opacity-40' : ''}
+              ${isHighlighted ? 'ring-2 ring-highlight' : ''}
+              ${isRejected ? 'ring-2 ring-danger animate-shake' : ''}
             `}
             style={{ 
               left: pos.x, 
@@ -191,7 +341,7 @@ const LetterWheel: React.FC<LetterWheelProps> = ({ letters, onWordComplete, curr
             }}
           >
             {letters[pos.index]}
-          </div>
+          </button>
         );
       })}
     </div>
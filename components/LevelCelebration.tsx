@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { LevelSummary } from '../types.ts';
+import { formatDuration } from '../services/stats.ts';
+import { useReducedMotion } from './useReducedMotion.ts';
+
+interface LevelCelebrationProps {
+  title: string;
+  summary: LevelSummary;
+  onClose: () => void;
+}
+
+const CONFETTI_COLORS = ['rgb(var(--accent-400))', 'rgb(var(--accent-300))', 'rgb(var(--highlight))', 'rgb(var(--accent-50))', 'rgb(var(--accent-500))'];
+const CONFETTI_PIECES = 24;
+const COUNT_UP_MS = 700;
+
+// Counts from 0 to the target once; jumps straight there when motion is reduced.
+const useCountUp = (target: number, instant: boolean): number => {
+  const [value, setValue] = useState(instant ? target : 0);
+
+  useEffect(() => {
+    if (instant) {
+      setValue(target);
+      return;
+    }
+    const startedAt = performance.now();
+    let frame = requestAnimationFrame(function step(now) {
+      const progress = Math.min(1, (now - startedAt) / COUNT_UP_MS);
+      setValue(Math.round(target * (1 - Math.pow(1 - progress, 3))));
+      if (progress < 1) frame = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [target, instant]);
+
+  return value;
+};
+
+const LevelCelebration: React.FC<LevelCelebrationProps> = ({ title, summary, onClose }) => {
+  const reducedMotion = useReducedMotion();
+  const earned = summary.wordPoints + summary.extraPoints;
+  const shownEarned = useCountUp(earned, reducedMotion);
+  const isScored = summary.score !== null;
+
+  const rows: { label: string; detail: string; points?: number }[] = [
+    {
+      label: 'Words',
+      detail: summary.wordsRevealed > 0 ? `${summary.wordsFound} found, ${summary.wordsRevealed} revealed` : `${summary.wordsFound} found`,
+      points: summary.wordPoints
+    },
+    { label: 'Bonus words', detail: `${summary.extraWords}`, points: summary.extraPoints },
+    { label: 'Hints', detail: `${summary.hintsUsed}` },
+    { label: 'Time', detail: formatDuration(summary.timeMs) }
+  ];
+
+  return (
+    <div
+      className="absolute inset-0 z-40 flex items-center justify-center overflow-hidden bg-canvas/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      {!reducedMotion && (
+        <div className="absolute inset-0 pointer-events-none" aria-hidden="true">
+          {Array.from({ length: CONFETTI_PIECES }, (_, i) => (
+            <span
+              key={i}
+              className="absolute top-0 w-2 h-3 rounded-sm animate-confetti"
+              style={{
+                left: `${(i * 37) % 100}%`,
+                backgroundColor: CONFETTI_COLORS[i % CONFETTI_COLORS.length],
+                animationDelay: `${(i % 6) * 120}ms`
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="celebration-title"
+        className="relative w-[min(85vw,320px)] flex flex-col gap-4 rounded-3xl glass p-5 shadow-2xl animate-pop"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="celebration-title" className="text-sm font-black tracking-[0.2em] text-accent-300 uppercase">{title}</h2>
+          <button onClick={onClose} aria-label="Close" autoFocus className="text-accent-300/70 font-black text-lg leading-none active:scale-90">✕</button>
+        </div>
+
+        {isScored && (
+          <p className="text-center">
+            <span className="block text-5xl font-black text-ink tabular-nums" aria-label={`${earned} points earned`}>+{shownEarned}</span>
+            <span className="text-[10px] font-black tracking-widest text-accent-300/70 uppercase">Score {summary.score}</span>
+          </p>
+        )}
+
+        <dl className="flex flex-col gap-1.5">
+          {rows.map(row => (
+            <div key={row.label} className="flex items-baseline justify-between gap-3 text-sm">
+              <dt className="text-[10px] font-black tracking-widest text-accent-300/70 uppercase">{row.label}</dt>
+              <dd className="flex gap-3 font-bold text-accent-50 tabular-nums">
+                <span>{row.detail}</span>
+                {isScored && row.points !== undefined && <span className="w-12 text-right text-accent-300">+{row.points}</span>}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <button
+          onClick={onClose}
+          className="w-full bg-accent-700 text-ink font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LevelCelebration;
@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { LevelData, PlacedWord } from '../types.ts';
+import { engine } from '../services/engineClient.ts';
+import { LanguageCode, getLanguage, toDisplayCase, toWordCase } from '../services/languages.ts';
+import { LevelFile, LevelPack, createLevelPack, downloadLevelPack, validateLevel } from '../services/levelPack.ts';
+import { findViolations } from '../services/placement.ts';
+import { createHintState, wordCells } from '../services/hints.ts';
+import { hashString } from '../services/random.ts';
+import CrosswordGrid from './CrosswordGrid.tsx';
+
+interface LevelEditorProps {
+  language: LanguageCode;
+  // Play the draft as a one-level pack.
+  onPlay: (pack: LevelPack) => void;
+  onClose: () => void;
+}
+
+type Direction = PlacedWord['direction'];
+
+// Empty cells kept around the words so there is room to place the next one.
+const MARGIN = 2;
+const EMPTY_CANVAS = 7;
+const NO_HINTS = createHintState();
+
+const boundsOf = (placed: PlacedWord[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  placed.forEach(pw => wordCells(pw).forEach(key => {
+    const [x, y] = key.split(',').map(Number);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }));
+  return { minX, minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const shiftWords = (placed: PlacedWord[], dx: number, dy: number): PlacedWord[] =>
+  placed.map(pw => ({ ...pw, x: pw.x + dx, y: pw.y + dy }));
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ language, onPlay, onClose }) => {
+  const { locale, alphabet, letterFolding } = getLanguage(language);
+  const [rootInput, setRootInput] = useState("");
+  const [root, setRoot] = useState("");
+  const [candidates, setCandidates] = useState<string[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedWord, setSelectedWord] = useState<string | null>(null);
+  const [direction, setDirection] = useState<Direction>('horizontal');
+  // Words in editor coordinates, which may go negative; normalized on export.
+  const [placed, setPlaced] = useState<PlacedWord[]>([]);
+  const [title, setTitle] = useState("");
+  const [author, setAuthor] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const violations = useMemo(() => findViolations(placed), [placed]);
+
+  // The draft as a level with every word revealed, padded with empty cells to tap on.
+  const view = useMemo(() => {
+    const bounds = placed.length > 0
+      ? boundsOf(placed)
+      : { minX: MARGIN, minY: MARGIN, width: EMPTY_CANVAS - 2 * MARGIN, height: EMPTY_CANVAS - 2 * MARGIN };
+    const originX = bounds.minX - MARGIN;
+    const originY = bounds.minY - MARGIN;
+    const shifted = shiftWords(placed, -originX, -originY);
+    const level: LevelData = {
+      seed: 0,
+      language,
+      rootLetters: Array.from(root).sort().join(''),
+      displayLetters: Array.from(root, ch => toDisplayCase(ch, locale)),
+      validWords: shifted.map(pw => pw.word),
+      placedWords: shifted,
+      gridWidth: bounds.width + 2 * MARGIN,
+      gridHeight: bounds.height + 2 * MARGIN,
+      foundWords: new Set(shifted.map(pw => pw.word)),
+      extraWords: new Set<string>(),
+      revealedWords: new Set<string>()
+    };
+    const markedCells = new Set([...violations.keys()].flatMap(i => wordCells(shifted[i])));
+    return { level, originX, originY, markedCells };
+  }, [placed, root, language, locale, violations]);
+
+  const searchWords = async () => {
+    const letters = Array.from(toWordCase(rootInput.trim().normalize('NFC'), locale), ch => letterFolding[ch] ?? ch)
+      .filter(ch => alphabet.includes(ch))
+      .join('');
+    if (letters.length < 3) {
+      setNotice("Enter at least 3 letters");
+      return;
+    }
+    setIsSearching(true);
+    try {
+      const words = await engine.findWords(letters);
+      setRoot(letters);
+      setRootInput(letters);
+      setCandidates(words);
+      setPlaced([]);
+      setSelectedWord(null);
+      setNotice(words.length === 0 ? "No dictionary words use only these letters" : "");
+    } catch (err) {
+      console.error("❌ Editor: Word lookup failed", err);
+      setNotice("Word lookup failed");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleCellTap = (cell: string) => {
+    if (!selectedWord) {
+      setNotice("Pick a word to place first");
+      return;
+    }
+    const [x, y] = cell.split(',').map(Number);
+    const word: PlacedWord = { word: selectedWord, x: x + view.originX, y: y + view.originY, direction };
+    // Placing an already placed word moves it.
+    setPlaced(prev => [...prev.filter(pw => pw.word !== selectedWord), word]);
+    setSelectedWord(null);
+    setNotice("");
+  };
+
+  const buildLevelFile = (): LevelFile | null => {
+    if (placed.length === 0 || violations.size > 0) return null;
+    const { minX, minY, width, height } = boundsOf(placed);
+    const placedWords = shiftWords(placed, -minX, -minY);
+    const file: LevelFile = {
+      ...(title.trim() ? { title: title.trim() } : {}),
+      ...(author.trim() ? { author: author.trim() } : {}),
+      language,
+      seed: hashString(`${root}:${JSON.stringify(placedWords)}`),
+      rootLetters: root,
+      displayLetters: Array.from(root, ch => toDisplayCase(ch, locale)),
+      placedWords,
+      gridWidth: width,
+      gridHeight: height
+    };
+    const problems = validateLevel(file);
+    if (problems.length > 0) {
+      setNotice(problems.join('\n'));
+      return null;
+    }
+    return file;
+  };
+
+  const exportDraft = (play: boolean) => {
+    const file = buildLevelFile();
+    if (!file) return;
+    const pack = createLevelPack([file], { title: file.title, author: file.author });
+    if (play) onPlay(pack);
+    else downloadLevelPack(pack);
+  };
+
+  const placedWords = new Set(placed.map(pw => pw.word));
+  const canExport = placed.length > 0 && violations.size === 0;
+
+  return (
+    <div className="flex flex-col h-screen bg-transparent text-ink overflow-hidden safe-top safe-bottom">
+      <div className="flex justify-between items-center px-6 py-4 shrink-0">
+        <h1 className="text-2xl font-black tracking-tighter leading-none">LEVEL EDITOR</h1>
+        <button onClick={onClose} aria-label="Close editor" className="text-accent-300/70 font-black text-xl leading-none active:scale-90">✕</button>
+      </div>
+
+      <form
+        className="flex gap-2 px-6 shrink-0"
+        onSubmit={(e) => { e.preventDefault(); searchWords(); }}
+      >
+        <input
+          value={rootInput}
+          onChange={(e) => setRootInput(e.target.value)}
+          placeholder="Root letters"
+          aria-label="Root letters"
+          maxLength={9}
+          lang={language}
+          className="flex-1 min-w-0 rounded-2xl glass px-4 py-2 text-lg font-black tracking-[0.2em] uppercase bg-transparent outline-none placeholder:text-accent-300/30 placeholder:normal-case placeholder:tracking-normal"
+        />
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="px-4 rounded-2xl bg-accent-700 font-black text-xs uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+        >
+          Find Words
+        </button>
+      </form>
+
+      {candidates && (
+        <div className="px-6 pt-3 shrink-0">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-[10px] font-black tracking-[0.2em] text-accent-300 uppercase">{candidates.length} words</h2>
+            <button
+              onClick={() => setDirection(d => d === 'horizontal' ? 'vertical' : 'horizontal')}
+              aria-label={`Direction: ${direction === 'horizontal' ? 'across' : 'down'}`}
+              className="px-3 py-1 rounded-full glass text-[10px] font-black tracking-widest text-accent-300 uppercase active:scale-90 transition-transform"
+            >
+              {direction === 'horizontal' ? '↔ Across' : '↕ Down'}
+            </button>
+          </div>
+          <ul className="flex flex-wrap gap-1.5 max-h-[18vh] overflow-y-auto">
+            {candidates.map(word => (
+              <li key={word}>
+                <button
+                  onClick={() => setSelectedWord(prev => prev === word ? null : word)}
+                  aria-pressed={selectedWord === word}
+                  className={`px-2.5 py-1 rounded-full border text-xs font-black tracking-widest uppercase active:scale-95 transition-transform
+                    ${selectedWord === word
+                      ? 'bg-accent-300 text-accent-950 border-accent-200'
+                      : placedWords.has(word)
+                        ? 'bg-accent-600/60 border-accent-300/40'
+                        : 'bg-accent-900/60 border-accent-500/30'}`}
+                >
+                  {toDisplayCase(word, locale)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-hidden relative my-2">
+        {root && (
+          <CrosswordGrid
+            level={view.level}
+            hints={NO_HINTS}
+            onCellTap={handleCellTap}
+            isEditing
+            markedCells={view.markedCells}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 px-6 pb-4 shrink-0 max-h-[34vh] overflow-y-auto">
+        <div role="status" aria-live="polite" className="text-xs text-accent-50/80 whitespace-pre-wrap">
+          {selectedWord
+            ? `Tap the first cell for ${toDisplayCase(selectedWord, locale)} (${direction === 'horizontal' ? 'across' : 'down'})`
+            : notice}
+        </div>
+        {violations.size > 0 && (
+          <ul className="text-xs text-danger">
+            {[...violations].map(([i, reason]) => (
+              <li key={placed[i].word}>{toDisplayCase(placed[i].word, locale)} {reason}</li>
+            ))}
+          </ul>
+        )}
+        {placed.length > 0 && (
+          <ul className="flex flex-wrap gap-1.5">
+            {placed.map(pw => (
+              <li key={pw.word} className="flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full bg-shade/30 text-xs font-black tracking-widest uppercase">
+                {toDisplayCase(pw.word, locale)}
+                <button
+                  onClick={() => setPlaced(prev => prev.filter(other => other.word !== pw.word))}
+                  aria-label={`Remove ${pw.word}`}
+                  className="w-5 h-5 text-accent-300/70 active:scale-90"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title"
+            aria-label="Title"
+            className="flex-1 min-w-0 rounded-2xl glass px-3 py-1.5 text-xs font-bold bg-transparent outline-none placeholder:text-accent-300/30"
+          />
+          <input
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="Author"
+            aria-label="Author"
+            className="flex-1 min-w-0 rounded-2xl glass px-3 py-1.5 text-xs font-bold bg-transparent outline-none placeholder:text-accent-300/30"
+          />
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => exportDraft(false)}
+            disabled={!canExport}
+            className="flex-1 glass text-accent-50 font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => exportDraft(true)}
+            disabled={!canExport}
+            className="flex-1 bg-accent-700 text-ink font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+          >
+            Play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { LevelPack, downloadLevelPack, parseLevelPack } from '../services/levelPack.ts';
+import { LanguageCode, getLanguage } from '../services/languages.ts';
+
+interface PackPanelProps {
+  // Language the engine is running; a pack must match it.
+  language: LanguageCode;
+  // The pack being played and the current position in it, if any.
+  activePack: { pack: LevelPack; index: number } | null;
+  // Single-level pack for the level on screen, or null when there is nothing to export.
+  exportPack: LevelPack | null;
+  canLoad: boolean;
+  onLoad: (pack: LevelPack) => void;
+  onLeave: () => void;
+  onOpenEditor: () => void;
+  onClose: () => void;
+}
+
+const PackPanel: React.FC<PackPanelProps> = ({ language, activePack, exportPack, canLoad, onLoad, onLeave, onOpenEditor, onClose }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parseLevelPack(await file.text());
+      const packLanguage = pack.levels[0].language;
+      if (packLanguage !== language) {
+        throw new Error(`This pack is in ${getLanguage(packLanguage).name}; switch language before loading it`);
+      }
+      setError(null);
+      onLoad(pack);
+    } catch (err) {
+      console.warn("📦 Packs: Could not load level pack", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-canvas/70 backdrop-blur-sm animate-pop"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pack-title"
+        className="w-[min(85vw,320px)] max-h-[80%] flex flex-col gap-3 rounded-3xl glass p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="pack-title" className="text-sm font-black tracking-[0.2em] text-accent-300 uppercase">Level Packs</h2>
+          <button onClick={onClose} aria-label="Close" autoFocus className="text-accent-300/70 font-black text-lg leading-none active:scale-90">✕</button>
+        </div>
+
+        {activePack && (
+          <div className="rounded-2xl bg-accent-900/40 px-4 py-3">
+            <p className="text-sm font-black text-ink">{activePack.pack.title || 'Untitled pack'}</p>
+            {activePack.pack.author && <p className="text-xs text-accent-50/70">by {activePack.pack.author}</p>}
+            <p className="text-[10px] font-black tracking-widest text-accent-300/70 uppercase mt-1">
+              Level {activePack.index + 1} of {activePack.pack.levels.length}
+            </p>
+          </div>
+        )}
+
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={!canLoad}
+          className="w-full bg-accent-700 text-ink font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+        >
+          Load Pack
+        </button>
+        <button
+          onClick={() => exportPack && downloadLevelPack(exportPack)}
+          disabled={!exportPack}
+          className="w-full glass text-accent-50 font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+        >
+          Export This Level
+        </button>
+        <button
+          onClick={onOpenEditor}
+          disabled={!canLoad}
+          className="w-full glass text-accent-50 font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+        >
+          Level Editor
+        </button>
+        {activePack && (
+          <button
+            onClick={onLeave}
+            className="w-full text-accent-300/70 font-black py-2 text-xs uppercase tracking-widest active:scale-95 transition-transform"
+          >
+            Leave Pack
+          </button>
+        )}
+
+        {error && (
+          <p role="alert" className="text-xs text-danger whitespace-pre-wrap max-h-32 overflow-y-auto select-text">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PackPanel;
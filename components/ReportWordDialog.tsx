@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { WordReportKind } from '../services/wordReports.ts';
+import { allowedWordProblem } from '../services/curation.ts';
+import { LanguageCode, getLanguage, toDisplayCase } from '../services/languages.ts';
+
+interface ReportWordDialogProps {
+  kind: WordReportKind;
+  // More than one when the pressed cell is where two found words cross.
+  words: string[];
+  language: LanguageCode;
+  // updateLists: also put the word on the player's own block or allow list.
+  onSubmit: (word: string, updateLists: boolean) => void;
+  onClose: () => void;
+}
+
+const COPY: Record<WordReportKind, { title: string; prompt: string; listOption: string }> = {
+  grid: { title: 'Report this word', prompt: "Shouldn't be in puzzles", listOption: 'Never show it to me again' },
+  rejected: { title: 'This is a real word', prompt: 'Should have counted', listOption: 'Accept it from now on' }
+};
+
+const ReportWordDialog: React.FC<ReportWordDialogProps> = ({ kind, words, language, onSubmit, onClose }) => {
+  const [word, setWord] = useState(words[0]);
+  const [updateLists, setUpdateLists] = useState(true);
+  const copy = COPY[kind];
+  const { locale } = getLanguage(language);
+  // The report still goes out, but a word that can never be guessed is not worth allowing.
+  const listProblem = kind === 'rejected' ? allowedWordProblem(word, getLanguage(language)) : null;
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-canvas/70 backdrop-blur-sm animate-pop"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="report-title"
+        className="w-[min(85vw,320px)] flex flex-col gap-4 rounded-3xl glass p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="report-title" className="text-sm font-black tracking-[0.2em] text-accent-300 uppercase">{copy.title}</h2>
+          <button onClick={onClose} aria-label="Close" autoFocus className="text-accent-300/70 font-black text-lg leading-none active:scale-90">✕</button>
+        </div>
+
+        <div role="radiogroup" aria-label={copy.prompt} className="flex flex-wrap justify-center gap-2">
+          {words.map(option => (
+            <button
+              key={option}
+              role="radio"
+              aria-checked={word === option}
+              onClick={() => setWord(option)}
+              className={`px-4 py-1.5 rounded-full border-2 text-lg font-black tracking-widest active:scale-95 transition-transform
+                ${word === option ? 'border-accent-300 bg-accent-900/60 text-ink' : 'border-transparent bg-shade/20 text-accent-300/70'}`}
+            >
+              {toDisplayCase(option, locale)}
+            </button>
+          ))}
+        </div>
+        <p className="text-center text-[10px] font-black tracking-widest text-accent-300/70 uppercase">{copy.prompt}</p>
+
+        <label className={`flex items-center gap-3 rounded-2xl bg-accent-900/40 px-4 py-3 text-sm font-bold text-accent-50 ${listProblem ? 'opacity-50' : ''}`}>
+          <input
+            type="checkbox"
+            checked={updateLists && !listProblem}
+            disabled={!!listProblem}
+            onChange={(e) => setUpdateLists(e.target.checked)}
+            className="w-4 h-4 accent-[rgb(var(--accent-500))]"
+          />
+          {copy.listOption}
+        </label>
+        {listProblem && (
+          <p className="-mt-2 text-center text-[10px] font-black tracking-widest text-accent-300/70 uppercase">{listProblem}</p>
+        )}
+
+        <button
+          onClick={() => onSubmit(word, updateLists && !listProblem)}
+          className="w-full bg-accent-700 text-ink font-black py-3 rounded-[2rem] text-sm uppercase tracking-widest active:scale-95 transition-transform"
+        >
+          Report
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportWordDialog;
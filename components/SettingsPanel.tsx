@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { FeedbackSettings, feedbackManager } from '../services/feedbackManager.ts';
+import { THEMES, ThemeId, applyTheme, loadThemePreference } from '../services/themes.ts';
+import { PlayerWordLists } from '../services/curation.ts';
+import { LanguageCode } from '../services/languages.ts';
+import { clearWordReports, downloadWordReports, loadWordReports } from '../services/wordReports.ts';
+import WordListsEditor from './WordListsEditor.tsx';
+
+interface SettingsPanelProps {
+  // The word lists shown are this language's.
+  language: LanguageCode;
+  onWordListsChange: (lists: PlayerWordLists) => void;
+  onClose: () => void;
+}
+
+const TOGGLES: { key: keyof FeedbackSettings; label: string }[] = [
+  { key: 'sound', label: 'Sound effects' },
+  { key: 'vibration', label: 'Vibration' }
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ language, onWordListsChange, onClose }) => {
+  const [settings, setSettings] = useState(() => feedbackManager.getSettings());
+  const [theme, setTheme] = useState<ThemeId>(loadThemePreference);
+  const [reports, setReports] = useState(loadWordReports);
+
+  const toggle = (key: keyof FeedbackSettings) => {
+    setSettings(feedbackManager.updateSettings({ [key]: !settings[key] }));
+  };
+
+  const discardReports = () => {
+    clearWordReports();
+    setReports([]);
+  };
+
+  const chooseTheme = (id: ThemeId) => {
+    applyTheme(id);
+    setTheme(id);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-canvas/70 backdrop-blur-sm animate-pop"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        className="w-[min(85vw,320px)] max-h-[80%] flex flex-col gap-3 overflow-y-auto rounded-3xl glass p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="settings-title" className="text-sm font-black tracking-[0.2em] text-accent-300 uppercase">Settings</h2>
+          <button onClick={onClose} aria-label="Close" autoFocus className="text-accent-300/70 font-black text-lg leading-none active:scale-90">✕</button>
+        </div>
+
+        <h3 id="theme-label" className="text-[10px] font-black tracking-[0.2em] text-accent-300/70 uppercase">Theme</h3>
+        <div role="radiogroup" aria-labelledby="theme-label" className="grid grid-cols-3 gap-2">
+          {Object.values(THEMES).map(option => (
+            <button
+              key={option.id}
+              role="radio"
+              aria-checked={theme === option.id}
+              onClick={() => chooseTheme(option.id)}
+              className={`flex flex-col items-center gap-1.5 rounded-2xl px-2 py-3 border-2 active:scale-95 transition-transform
+                ${theme === option.id ? 'border-accent-300 bg-accent-900/40' : 'border-transparent bg-shade/20'}`}
+            >
+              <span
+                aria-hidden="true"
+                className="w-8 h-8 rounded-full border border-accent-400/30"
+                style={{ background: `linear-gradient(135deg, rgb(${option.canvas}) 50%, rgb(${option.accent[400]}) 50%)` }}
+              />
+              <span className="text-[10px] font-black tracking-widest text-accent-50 uppercase leading-tight text-center">{option.name}</span>
+            </button>
+          ))}
+        </div>
+
+        <h3 className="text-[10px] font-black tracking-[0.2em] text-accent-300/70 uppercase">Feedback</h3>
+        <ul className="flex flex-col gap-2">
+          {TOGGLES.map(({ key, label }) => (
+            <li key={key} className="flex items-center justify-between rounded-2xl bg-accent-900/40 px-4 py-3">
+              <span id={`setting-${key}`} className="text-sm font-bold text-accent-50">{label}</span>
+              <button
+                role="switch"
+                aria-checked={settings[key]}
+                aria-labelledby={`setting-${key}`}
+                onClick={() => toggle(key)}
+                className={`relative w-11 h-6 rounded-full transition-colors ${settings[key] ? 'bg-accent-500' : 'bg-shade/40'}`}
+              >
+                <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-ink transition-transform ${settings[key] ? 'translate-x-5' : ''}`} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <h3 className="text-[10px] font-black tracking-[0.2em] text-accent-300/70 uppercase">My words</h3>
+        <WordListsEditor language={language} onChange={onWordListsChange} />
+
+        <h3 className="text-[10px] font-black tracking-[0.2em] text-accent-300/70 uppercase">Word reports</h3>
+        <div className="flex items-center gap-2 rounded-2xl bg-accent-900/40 px-4 py-3">
+          <span className="flex-1 text-sm font-bold text-accent-50">
+            {reports.length === 0 ? 'None waiting' : `${reports.length} waiting`}
+          </span>
+          <button
+            onClick={() => downloadWordReports(reports)}
+            disabled={reports.length === 0}
+            className="px-3 py-1.5 rounded-full bg-accent-700 text-ink font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+          >
+            Export
+          </button>
+          <button
+            onClick={discardReports}
+            disabled={reports.length === 0}
+            className="px-3 py-1.5 rounded-full glass text-accent-300 font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { GameMode, PuzzleSource } from '../types.ts';
+import { formatDuration, getAccuracy, getAverageTimeMs, loadStats } from '../services/stats.ts';
+import { MODE_RULES, loadModeBests } from '../services/gameModes.ts';
+
+interface StatsPanelProps {
+  onClose: () => void;
+}
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ onClose }) => {
+  const [stats] = useState(loadStats);
+  const [bests] = useState(loadModeBests);
+  const accuracy = getAccuracy(stats);
+  const averageTime = getAverageTimeMs(stats);
+
+  const tiles = [
+    { label: 'Cleared', value: String(stats.levelsCleared) },
+    { label: 'Streak', value: String(stats.currentStreak) },
+    { label: 'Best Streak', value: String(stats.bestStreak) },
+    { label: 'Accuracy', value: accuracy === null ? '–' : `${Math.round(accuracy * 100)}%` },
+    { label: 'Avg Time', value: averageTime === null ? '–' : formatDuration(averageTime) },
+    { label: 'Hints', value: String(stats.hintsUsed) }
+  ];
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-canvas/70 backdrop-blur-sm animate-pop"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="stats-title"
+        className="w-[min(88vw,340px)] max-h-[85%] flex flex-col rounded-3xl glass p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="stats-title" className="text-sm font-black tracking-[0.2em] text-accent-300 uppercase">Statistics</h2>
+          <button onClick={onClose} aria-label="Close" autoFocus className="text-accent-300/70 font-black text-lg leading-none active:scale-90">✕</button>
+        </div>
+
+        <dl className="grid grid-cols-3 gap-2 mb-3">
+          {tiles.map(tile => (
+            <div key={tile.label} className="flex flex-col-reverse items-center rounded-2xl bg-accent-900/40 py-2">
+              <dt className="text-[9px] font-black tracking-widest text-accent-300/60 uppercase">{tile.label}</dt>
+              <dd className="text-xl font-black text-ink leading-tight">{tile.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <p className="text-[10px] font-black tracking-widest text-accent-300/60 uppercase mb-3">
+          Longest word: <span className="text-ink">{stats.longestWord || '–'}</span>
+        </p>
+
+        <h3 className="text-[10px] font-black tracking-[0.2em] text-accent-300 uppercase mb-2">Bests</h3>
+        <table className="w-full mb-3 text-xs font-bold">
+          <thead>
+            <tr className="text-[9px] font-black tracking-widest text-accent-300/60 uppercase">
+              <th className="text-left font-black">Mode</th>
+              <th className="font-black">Level</th>
+              <th className="font-black">Score</th>
+              <th className="font-black">Fastest</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.values(GameMode).map(mode => (
+              <tr key={mode}>
+                <th scope="row" className="text-left font-black uppercase tracking-wider">{MODE_RULES[mode].label}</th>
+                <td className="text-center">{bests[mode].highestLevel || '–'}</td>
+                <td className="text-center">{MODE_RULES[mode].isScored && bests[mode].bestScore ? bests[mode].bestScore : '–'}</td>
+                <td className="text-center">{bests[mode].fastestClearMs === null ? '–' : formatDuration(bests[mode].fastestClearMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 className="text-[10px] font-black tracking-[0.2em] text-accent-300 uppercase mb-2">History</h3>
+        {stats.history.length === 0 ? (
+          <p className="text-xs font-bold text-accent-300/50 uppercase tracking-widest text-center py-4">No levels played yet</p>
+        ) : (
+          <ul className="flex flex-col gap-1 overflow-y-auto">
+            {stats.history.map(record => (
+              <li key={record.finishedAt} className="flex justify-between items-center gap-2 px-3 py-1.5 rounded-2xl bg-shade/20 text-xs font-bold">
+                <span className="font-black tracking-wider uppercase">
+                  {record.source === PuzzleSource.DAILY ? 'Daily' : record.source === PuzzleSource.PACK ? `Pack ${record.levelNumber}` : `Level ${record.levelNumber}`}
+                  <span className="text-accent-300/50">
+                    {' · '}{record.language}
+                    {record.mode !== GameMode.CLASSIC && ` · ${MODE_RULES[record.mode].label}`}
+                  </span>
+                </span>
+                <span className="text-accent-50/70">
+                  {record.wordsFound}/{record.totalWords} · {formatDuration(record.timeMs)}
+                  {record.hintsUsed > 0 && ` · 💡${record.hintsUsed}`}
+                  {record.gaveUp && ' · 🏳️'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import {
+  PlayerWordList, PlayerWordLists, addPlayerWord, allowedWordProblem, loadPlayerWordLists, removePlayerWord, savePlayerWordLists
+} from '../services/curation.ts';
+import { LanguageCode, getLanguage, toWordCase } from '../services/languages.ts';
+
+interface WordListsEditorProps {
+  language: LanguageCode;
+  // Called with the saved lists after every change, so the engine can pick them up.
+  onChange: (lists: PlayerWordLists) => void;
+}
+
+const LISTS: { list: PlayerWordList; label: string; action: string }[] = [
+  { list: 'blocked', label: 'Never show', action: 'Block' },
+  { list: 'allowed', label: 'Always accept', action: 'Allow' }
+];
+
+const WordListsEditor: React.FC<WordListsEditorProps> = ({ language, onChange }) => {
+  const [lists, setLists] = useState(() => loadPlayerWordLists(language));
+  const [input, setInput] = useState("");
+  const [notice, setNotice] = useState("");
+  const config = getLanguage(language);
+  const word = toWordCase(input.trim(), config.locale);
+  const isWord = /^\p{L}+$/u.test(word);
+
+  const update = (next: PlayerWordLists) => {
+    setLists(next);
+    savePlayerWordLists(language, next);
+    onChange(next);
+  };
+
+  const add = (list: PlayerWordList) => {
+    if (!isWord) return;
+    // Blocking is always safe; allowing a word that can never be guessed would do nothing.
+    const problem = list === 'allowed' ? allowedWordProblem(word, config) : null;
+    if (problem) {
+      setNotice(problem);
+      return;
+    }
+    update(addPlayerWord(lists, list, word));
+    setInput("");
+    setNotice("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setNotice(""); }}
+          placeholder="Add a word"
+          aria-label="Word"
+          lang={language}
+          className="flex-1 min-w-0 rounded-2xl glass px-3 py-1.5 text-xs font-bold bg-transparent outline-none placeholder:text-accent-300/30"
+        />
+        {LISTS.map(({ list, action }) => (
+          <button
+            key={list}
+            onClick={() => add(list)}
+            disabled={!isWord}
+            className="px-3 rounded-2xl bg-accent-700 text-ink font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-40"
+          >
+            {action}
+          </button>
+        ))}
+      </div>
+      {notice && <p role="alert" className="text-[10px] font-bold text-accent-300 uppercase tracking-widest">{notice}</p>}
+
+      {LISTS.map(({ list, label }) => (
+        <div key={list} className="flex flex-col gap-1.5">
+          <span id={`word-list-${list}`} className="text-[10px] font-black tracking-widest text-accent-300/70 uppercase">{label}</span>
+          {lists[list].length === 0 ? (
+            <p className="text-[10px] font-bold text-accent-300/40 uppercase tracking-widest">No words</p>
+          ) : (
+            <ul aria-labelledby={`word-list-${list}`} className="flex flex-wrap gap-1.5">
+              {lists[list].map(entry => (
+                <li key={entry} className="flex items-center gap-1.5 pl-3 pr-2 py-0.5 rounded-full bg-accent-900/60 border border-accent-500/30 text-xs font-black tracking-widest uppercase">
+                  {entry}
+                  <button
+                    onClick={() => update(removePlayerWord(lists, entry))}
+                    aria-label={`Remove ${entry}`}
+                    className="text-accent-300/70 leading-none active:scale-90"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WordListsEditor;
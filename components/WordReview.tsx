@@ -0,0 +1,49 @@
+import React from 'react';
+import { LevelData } from '../types.ts';
+import { useDefinitions } from './useDefinitions.ts';
+import { getLanguage, toDisplayCase } from '../services/languages.ts';
+
+interface WordReviewProps {
+  level: LevelData;
+}
+
+// "Words learned": every placed word with its definition once the level is over.
+const WordReview: React.FC<WordReviewProps> = ({ level }) => {
+  const words = level.placedWords.map(pw => pw.word);
+  const defs = useDefinitions(words, level.language);
+  const { locale } = getLanguage(level.language);
+
+  return (
+    <div className="w-full max-h-[32vh] overflow-y-auto rounded-3xl glass px-4 py-3">
+      <h2 className="text-[10px] font-black tracking-[0.2em] text-accent-300 uppercase mb-2">Words Learned</h2>
+      <ul className="flex flex-col gap-2">
+        {words.map(word => {
+          const wasRevealed = level.revealedWords.has(word);
+          const def = defs?.[word];
+          return (
+            <li key={word} className="flex flex-col">
+              <span className="flex items-center gap-2">
+                <span className={`text-sm font-black tracking-widest ${wasRevealed ? 'text-accent-300/50' : 'text-ink'}`}>
+                  {toDisplayCase(word, locale)}
+                </span>
+                <span className={`text-[9px] font-black tracking-widest uppercase px-2 rounded-full
+                  ${wasRevealed ? 'bg-shade/30 text-accent-300/60' : 'bg-accent-600 text-ink'}`}>
+                  {wasRevealed ? 'Revealed' : 'Found'}
+                </span>
+              </span>
+              <span className="text-xs text-accent-50/70 leading-snug">
+                {defs === undefined
+                  ? '…'
+                  : def
+                    ? <><em className="text-accent-300/70">{def.partOfSpeech}</em> {def.text}</>
+                    : 'No definition available'}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default WordReview;
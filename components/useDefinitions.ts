@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { Definition, defineAll, getDefinitions } from '../services/definitions.ts';
+import { LanguageCode } from '../services/languages.ts';
+
+// Definitions for a set of words; undefined while loading, null when a word is not covered.
+export const useDefinitions = (words: string[], language: LanguageCode): Record<string, Definition | null> | undefined => {
+  const [result, setResult] = useState<Record<string, Definition | null>>();
+  const key = `${language}:${words.join(',')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(undefined);
+    defineAll(getDefinitions(language), words).then(defs => {
+      if (!cancelled) setResult(defs);
+    });
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return result;
+};
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { reducedMotionQuery } from '../services/feedback.ts';
+
+// Tracks the OS "reduce motion" setting, for motion driven from script rather than CSS.
+export const useReducedMotion = (): boolean => {
+  const [reduced, setReduced] = useState(() => reducedMotionQuery()?.matches ?? false);
+
+  useEffect(() => {
+    const query = reducedMotionQuery();
+    if (!query) return;
+    const onChange = () => setReduced(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return reduced;
+};
@@ -2,11 +2,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import { applyTheme, loadThemePreference } from './services/themes.ts';
+import { registerServiceWorker } from './services/serviceWorker.ts';
 
 console.info("🚀 index.tsx: Executing script...");
 
 const start = () => {
   console.info("🚀 index.tsx: Start function called");
+  // index.html already painted the cached theme; this refreshes it from the current definitions.
+  applyTheme(loadThemePreference());
   
   try {
     const rootElement = document.getElementById('root');
@@ -26,6 +30,7 @@ const start = () => {
       </React.StrictMode>
     );
     console.info("🚀 index.tsx: Render triggered successfully");
+    registerServiceWorker();
   } catch (err) {
     console.error("❌ index.tsx: Critical error during mount:", err);
   }
@@ -0,0 +1,78 @@
+// Offline support. This is a template: the serviceWorker plugin in vite.config.ts fills in
+// the build's file list and version and emits it as service-worker.js next to index.html.
+
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE = `wordflow-precache-${CACHE_VERSION}`;
+const RUNTIME = 'wordflow-runtime';
+
+// The build's files, relative to this worker: the app shell, the engine worker and the
+// bundled dictionaries for each language. The main-thread engine fallback is left out.
+const PRECACHE_FILES = __PRECACHE_FILES__;
+
+// Loaded from other origins at runtime; keep in step with index.html.
+// Cached on a best-effort basis so an unreachable CDN does not block installing.
+const EXTERNAL_FILES = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Plus+Jakarta+Sans:wght@400;600;800&display=swap'
+];
+
+self.addEventListener('install', (event) => {
+  // Waits for the page to send SKIP_WAITING, so a level in progress keeps its version.
+  event.waitUntil((async () => {
+    const precache = await caches.open(PRECACHE);
+    await precache.addAll(['./', ...PRECACHE_FILES]);
+    const runtime = await caches.open(RUNTIME);
+    await Promise.allSettled(EXTERNAL_FILES.map(async (url) => {
+      if (!(await runtime.match(url))) await runtime.add(url);
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('wordflow-precache-') && name !== PRECACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Serves cached files first and refreshes the cached copy from the network in the background.
+const staleWhileRevalidate = async (event) => {
+  const runtime = await caches.open(RUNTIME);
+  const cached = await runtime.match(event.request);
+  const refresh = fetch(event.request).then(response => {
+    if (response.ok || response.type === 'opaque') runtime.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
+  event.respondWith((async () => {
+    const precache = await caches.open(PRECACHE);
+    // Any page in scope is the single-page app shell.
+    if (request.mode === 'navigate') {
+      return (await precache.match('./')) ?? fetch(request);
+    }
+    return (await precache.match(request, { ignoreSearch: true })) ?? fetch(request);
+  })());
+});
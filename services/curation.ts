@@ -0,0 +1,71 @@
+import { LanguageCode, LanguageConfig } from './languages.ts';
+import { isRecord, isStringArray } from './guards.ts';
+
+// The player's own word lists, kept per language. WordEngine layers them over the curated
+// dictionary (source list, deny lists, priority words), so changes apply without a reload.
+
+export interface PlayerWordLists {
+  // "Never show me this word": rejected as a guess and left out of generated levels.
+  blocked: string[];
+  // "This should count": accepted as a guess even though the dictionary lacks it.
+  allowed: string[];
+}
+
+export type PlayerWordList = keyof PlayerWordLists;
+
+// Shorter guesses are turned down before the dictionary is asked.
+export const MIN_GUESS_LENGTH = 3;
+
+const STORAGE_KEY = 'wordflow.wordLists';
+
+// Entries stay unchecked here; each language's lists are validated when they are loaded.
+const readAll = (): Record<string, unknown> => {
+  let data: unknown;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    data = JSON.parse(raw);
+  } catch (err) {
+    console.warn("📝 WordLists: Could not read word lists", err);
+    return {};
+  }
+  if (isRecord(data)) return data;
+  console.warn("📝 WordLists: Stored word lists are corrupt, starting fresh");
+  return {};
+};
+
+export const loadPlayerWordLists = (code: LanguageCode): PlayerWordLists => {
+  const saved = readAll()[code];
+  if (!isRecord(saved)) return { blocked: [], allowed: [] };
+  return {
+    blocked: isStringArray(saved.blocked) ? saved.blocked : [],
+    allowed: isStringArray(saved.allowed) ? saved.allowed : []
+  };
+};
+
+export const savePlayerWordLists = (code: LanguageCode, lists: PlayerWordLists): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [code]: lists }));
+  } catch (err) {
+    console.warn("📝 WordLists: Could not save word lists", err);
+  }
+};
+
+// Why a word (in word case) could never be accepted as a guess, or null if it can go on the allowed list.
+export const allowedWordProblem = (word: string, language: LanguageConfig): string | null => {
+  const letters = Array.from(word, ch => language.letterFolding[ch] ?? ch);
+  if (letters.length < MIN_GUESS_LENGTH) return `Guesses need at least ${MIN_GUESS_LENGTH} letters`;
+  if (!letters.every(ch => language.alphabet.includes(ch))) return "The wheel never has some of these letters";
+  return null;
+};
+
+// A word sits on at most one list, so adding it to one takes it off the other.
+export const addPlayerWord = (lists: PlayerWordLists, list: PlayerWordList, word: string): PlayerWordLists => {
+  const next = removePlayerWord(lists, word);
+  return { ...next, [list]: [...next[list], word].sort() };
+};
+
+export const removePlayerWord = (lists: PlayerWordLists, word: string): PlayerWordLists => ({
+  blocked: lists.blocked.filter(w => w !== word),
+  allowed: lists.allowed.filter(w => w !== word)
+});
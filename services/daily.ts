@@ -0,0 +1,134 @@
+import { PlacedWord } from '../types.ts';
+import { hashString } from './random.ts';
+import { DifficultyProfile, getDifficultyProfile } from './difficulty.ts';
+import { LayoutOptions } from './wordEngine.ts';
+import { wordCells } from './hints.ts';
+import { LanguageCode, isLanguageCode } from './languages.ts';
+import { isRecord } from './guards.ts';
+
+const STORAGE_KEY = 'wordflow.daily.v1';
+
+export interface DailyResult {
+  date: string;
+  language: LanguageCode;
+  score: number;
+  wordsFound: number;
+  totalWords: number;
+  hintsUsed: number;
+  gaveUp: boolean;
+  extraWords: number;
+  // One emoji per placed word, in placement order.
+  tiles: string;
+}
+
+// Local calendar date, so the puzzle rolls over at the player's midnight.
+export const getDailyKey = (date: Date = new Date()): string => {
+  const yyyy = date.getFullYear();
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+};
+
+// Each language has its own daily puzzle; English keeps the seed it had before languages existed.
+export const getDailySeed = (dailyKey: string, language: LanguageCode = 'en'): number =>
+  hashString(language === 'en' ? `wordflow-daily-${dailyKey}` : `wordflow-daily-${language}-${dailyKey}`);
+
+const resultKey = (dailyKey: string, language: LanguageCode): string =>
+  language === 'en' ? dailyKey : `${dailyKey}:${language}`;
+
+// The daily puzzle sits somewhere in the mid-game part of the difficulty curve.
+export const getDailyProfile = (seed: number): DifficultyProfile => getDifficultyProfile(10 + (seed % 21));
+
+// Everyone must get the same grid, and player word lists would change it, so the daily
+// puzzle is built without them.
+export const DAILY_LAYOUT_OPTIONS: Partial<LayoutOptions> = { playerLists: false };
+
+// Results stored before languages existed have no language field; they are English.
+const isStoredResult = (value: unknown): value is Omit<DailyResult, 'language'> & { language?: LanguageCode } =>
+  isRecord(value) &&
+  typeof value.date === 'string' &&
+  (value.language === undefined || isLanguageCode(value.language)) &&
+  ['score', 'wordsFound', 'totalWords', 'hintsUsed', 'extraWords'].every(field => typeof value[field] === 'number') &&
+  typeof value.gaveUp === 'boolean' &&
+  typeof value.tiles === 'string';
+
+const readAll = (): Record<string, DailyResult> => {
+  let data: unknown;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    data = JSON.parse(raw);
+  } catch (err) {
+    console.warn("📅 Daily: Could not read stored results", err);
+    return {};
+  }
+
+  if (!isRecord(data)) {
+    console.warn("📅 Daily: Stored results are corrupt, starting fresh");
+    return {};
+  }
+  const results: Record<string, DailyResult> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (isStoredResult(value)) results[key] = { ...value, language: value.language ?? 'en' };
+    else console.warn(`📅 Daily: Dropping corrupt result for ${key}`);
+  }
+  return results;
+};
+
+export const loadDailyResult = (dailyKey: string, language: LanguageCode): DailyResult | null =>
+  readAll()[resultKey(dailyKey, language)] ?? null;
+
+export const saveDailyResult = (result: DailyResult): void => {
+  const all = readAll();
+  const key = resultKey(result.date, result.language);
+  if (all[key]) return; // First completion wins; replays never overwrite it.
+  all[key] = result;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (err) {
+    console.warn("📅 Daily: Could not store result", err);
+  }
+};
+
+interface DailyResultInput {
+  date: string;
+  language: LanguageCode;
+  score: number;
+  placedWords: PlacedWord[];
+  playerFound: Set<string>;
+  hintedCells: Set<string>;
+  hintsUsed: number;
+  gaveUp: boolean;
+  extraWords: number;
+}
+
+export const buildDailyResult = (input: DailyResultInput): DailyResult => {
+  const { placedWords, playerFound, hintedCells } = input;
+  const tiles = placedWords.map(pw => {
+    if (!playerFound.has(pw.word)) return '⬛';
+    return wordCells(pw).some(key => hintedCells.has(key)) ? '🟨' : '🟩';
+  }).join('');
+
+  return {
+    date: input.date,
+    language: input.language,
+    score: input.score,
+    wordsFound: placedWords.filter(pw => playerFound.has(pw.word)).length,
+    totalWords: placedWords.length,
+    hintsUsed: input.hintsUsed,
+    gaveUp: input.gaveUp,
+    extraWords: input.extraWords,
+    tiles
+  };
+};
+
+export const formatResultCard = (result: DailyResult): string => {
+  const lines = [
+    result.language === 'en' ? `WordFlow Daily ${result.date}` : `WordFlow Daily ${result.date} (${result.language.toUpperCase()})`,
+    result.tiles,
+    `${result.wordsFound}/${result.totalWords} words · 💡${result.hintsUsed} · ⭐${result.extraWords}`,
+  ];
+  if (result.gaveUp) lines.push('🏳️ Gave up');
+  lines.push(`Score ${result.score}`);
+  return lines.join('\n');
+};
@@ -0,0 +1,71 @@
+// Word definitions for the post-level review and for tapping found words.
+
+import { LanguageCode } from './languages.ts';
+import { isRecord } from './guards.ts';
+
+export interface Definition {
+  word: string;
+  partOfSpeech: string;
+  text: string;
+}
+
+export interface DefinitionsProvider {
+  // Resolves to null when the word is not covered.
+  define(word: string): Promise<Definition | null>;
+}
+
+type GlossaryEntry = [partOfSpeech: string, text: string];
+type Glossary = Record<string, GlossaryEntry>;
+
+const isGlossaryEntry = (value: unknown): value is GlossaryEntry =>
+  Array.isArray(value) && value.length === 2 && typeof value[0] === 'string' && typeof value[1] === 'string';
+
+// Checked once on load; malformed entries are left out rather than shown.
+const toGlossary = (data: unknown): Glossary => {
+  if (!isRecord(data)) throw new Error('Glossary is not an object');
+  const glossary: Glossary = {};
+  let skipped = 0;
+  for (const [word, entry] of Object.entries(data)) {
+    if (isGlossaryEntry(entry)) glossary[word] = entry;
+    else skipped++;
+  }
+  if (skipped > 0) console.warn(`📖 Definitions: Skipped ${skipped} malformed glossary entries`);
+  return glossary;
+};
+
+// A glossary bundled with the app, loaded on first lookup.
+export class GlossaryDefinitionsProvider implements DefinitionsProvider {
+  private glossary: Promise<Glossary> | null = null;
+
+  constructor(private readonly loadGlossary: () => Promise<unknown>) {}
+
+  async define(word: string): Promise<Definition | null> {
+    if (!this.glossary) {
+      this.glossary = this.loadGlossary().then(toGlossary).catch(err => {
+        console.warn("📖 Definitions: Could not load glossary", err);
+        this.glossary = null;
+        return {};
+      });
+    }
+    const entry = (await this.glossary)[word.toLowerCase()];
+    return entry ? { word, partOfSpeech: entry[0], text: entry[1] } : null;
+  }
+}
+
+export const defineAll = async (provider: DefinitionsProvider, words: string[]): Promise<Record<string, Definition | null>> => {
+  const entries = await Promise.all(words.map(async word => [word, await provider.define(word)] as const));
+  return Object.fromEntries(entries);
+};
+
+// For languages without a glossary yet.
+const noDefinitions: DefinitionsProvider = { define: async () => null };
+
+const providers: Partial<Record<LanguageCode, DefinitionsProvider>> = {
+  // Glossary: the first WordNet 3.1 sense of each bundled word that is not a named person or place
+  // (see data/glossary/LICENSE-wordnet.txt).
+  en: new GlossaryDefinitionsProvider(
+    () => import('../data/glossary/en.json').then(m => m.default)
+  )
+};
+
+export const getDefinitions = (language: LanguageCode): DefinitionsProvider => providers[language] ?? noDefinitions;
@@ -0,0 +1,45 @@
+// Where raw word lists come from. Sources only fetch text; filtering and
+// clustering happen once in WordEngine regardless of which source answered.
+
+export interface DictionarySource {
+  readonly name: string;
+  // Words in frequency order (most common first). Throws if unavailable.
+  load(): Promise<string[]>;
+}
+
+// One word per line; blank lines and # comments are skipped.
+export const parseWordList = (text: string): string[] =>
+  text.split('\n').map(w => w.trim()).filter(w => w.length > 0 && !w.startsWith('#'));
+
+export class RemoteDictionarySource implements DictionarySource {
+  readonly name: string;
+
+  constructor(private readonly url: string) {
+    this.name = `remote:${url}`;
+  }
+
+  async load(): Promise<string[]> {
+    const response = await fetch(this.url);
+    if (!response.ok) throw new Error(`Dictionary fetch failed with status ${response.status}`);
+    const text = await response.text();
+    console.log(`📚 DictionarySource: Received ${this.name} (${Math.round(text.length / 1024)} KB)`);
+    return parseWordList(text);
+  }
+}
+
+// A word list shipped inside the app bundle, loaded lazily as its own chunk.
+export class BundledDictionarySource implements DictionarySource {
+  constructor(readonly name: string, private readonly loadText: () => Promise<string>) {}
+
+  async load(): Promise<string[]> {
+    return parseWordList(await this.loadText());
+  }
+}
+
+export class MemoryDictionarySource implements DictionarySource {
+  constructor(private readonly words: string[], readonly name: string = 'memory') {}
+
+  async load(): Promise<string[]> {
+    return [...this.words];
+  }
+}
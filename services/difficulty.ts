@@ -0,0 +1,30 @@
+// Difficulty curve: early levels are short with common words, later levels are
+// longer, rarer and denser. Everything is derived from the level number alone.
+
+export interface DifficultyProfile {
+  rootLength: number;
+  minPlacedWords: number;
+  maxPlacedWords: number;
+  minWordLength: number;
+  // Highest frequency rank (0 = most common) a word may have to be used.
+  maxWordRank: number;
+  // Intersections the layout should reach; extra ones come from words crossing several others.
+  minCrossings: number;
+}
+
+// Level at which the curve reaches its hardest settings.
+const RAMP_LEVELS = 40;
+
+const lerp = (from: number, to: number, t: number): number => Math.round(from + (to - from) * t);
+
+export const getDifficultyProfile = (levelNumber: number): DifficultyProfile => {
+  const t = Math.min(1, Math.max(0, (levelNumber - 1) / RAMP_LEVELS));
+  return {
+    rootLength: levelNumber <= 5 ? 5 : levelNumber <= 20 ? 6 : 7,
+    minPlacedWords: lerp(3, 6, t),
+    maxPlacedWords: lerp(6, 14, t),
+    minWordLength: t >= 0.75 ? 5 : 4,
+    maxWordRank: t >= 1 ? Infinity : lerp(1500, 12000, t),
+    minCrossings: lerp(2, 12, t)
+  };
+};
@@ -0,0 +1,37 @@
+import { wordEngine } from './wordEngine.ts';
+import { EngineRequest, EngineResponse } from './engineProtocol.ts';
+import { getLanguage } from './languages.ts';
+
+// Typed locally: pulling in the "webworker" lib would clash with the DOM lib used everywhere else.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EngineRequest>) => void) | null;
+  postMessage(response: EngineResponse): void;
+};
+
+const handle = async (request: EngineRequest): Promise<unknown> => {
+  switch (request.method) {
+    case 'setLanguage':
+      return wordEngine.setLanguage(getLanguage(...request.args));
+    case 'setPlayerLists':
+      return wordEngine.setPlayerLists(...request.args);
+    case 'init':
+      return wordEngine.init();
+    case 'generateLevel':
+      return wordEngine.generateLevel(...request.args);
+    case 'isValidWord':
+      return wordEngine.isValidWord(...request.args);
+    case 'findWords':
+      return wordEngine.findWords(...request.args);
+  }
+};
+
+scope.onmessage = async (event: MessageEvent<EngineRequest>) => {
+  const { id } = event.data;
+  let response: EngineResponse;
+  try {
+    response = { id, ok: true, result: await handle(event.data) };
+  } catch (err) {
+    response = { id, ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  scope.postMessage(response);
+};
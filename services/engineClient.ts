@@ -0,0 +1,140 @@
+import { LevelData } from '../types.ts';
+import { DifficultyProfile } from './difficulty.ts';
+import { LayoutOptions } from './wordEngine.ts';
+import { LanguageCode, getLanguage, isLanguageCode } from './languages.ts';
+import { EngineApi, EngineCall, EngineRequest, EngineResponse } from './engineProtocol.ts';
+import { PlayerWordLists } from './curation.ts';
+import { isPlacedWord, isRecord, isStringArray } from './guards.ts';
+
+const isEngineResponse = (value: unknown): value is EngineResponse =>
+  isRecord(value) &&
+  typeof value.id === 'number' &&
+  (value.ok === true || (value.ok === false && typeof value.error === 'string'));
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isStringSet = (value: unknown): value is Set<string> =>
+  value instanceof Set && [...value].every(v => typeof v === 'string');
+
+const isLevelData = (value: unknown): value is LevelData =>
+  isRecord(value) &&
+  typeof value.seed === 'number' &&
+  isLanguageCode(value.language) &&
+  typeof value.rootLetters === 'string' &&
+  isStringArray(value.displayLetters) &&
+  isStringArray(value.validWords) &&
+  Array.isArray(value.placedWords) &&
+  value.placedWords.every(isPlacedWord) &&
+  Number.isInteger(value.gridWidth) &&
+  Number.isInteger(value.gridHeight) &&
+  isStringSet(value.foundWords) &&
+  isStringSet(value.extraWords) &&
+  isStringSet(value.revealedWords);
+
+// Rejects rather than handing the caller a value of the wrong shape.
+const checkResult = <T>(value: unknown, guard: (value: unknown) => value is T, method: string): T => {
+  if (guard(value)) return value;
+  throw new Error(`Worker sent a malformed result for ${method}`);
+};
+
+// Talks to the WordEngine hosted in a Web Worker so dictionary processing and
+// layout search never block the main thread.
+class WorkerEngineClient implements EngineApi {
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (err: Error) => void }>();
+
+  constructor(private readonly worker: Worker) {
+    worker.onmessage = (event: MessageEvent<unknown>) => {
+      const response = event.data;
+      if (!isEngineResponse(response)) {
+        console.error("❌ EngineClient: Ignoring malformed worker message", response);
+        return;
+      }
+      const entry = this.pending.get(response.id);
+      if (!entry) return;
+      this.pending.delete(response.id);
+      if (response.ok) entry.resolve(response.result);
+      else entry.reject(new Error(response.error));
+    };
+    worker.onerror = (event) => {
+      console.error("❌ EngineClient: Worker error", event.message);
+      this.pending.forEach(entry => entry.reject(new Error(event.message)));
+      this.pending.clear();
+    };
+  }
+
+  // Resolves with whatever the worker sent back; each method checks it before returning.
+  private call(call: EngineCall): Promise<unknown> {
+    const request: EngineRequest = { ...call, id: this.nextId++ };
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      this.worker.postMessage(request);
+    });
+  }
+
+  async setLanguage(code: LanguageCode): Promise<void> {
+    await this.call({ method: 'setLanguage', args: [code] });
+  }
+
+  async setPlayerLists(lists: PlayerWordLists): Promise<void> {
+    await this.call({ method: 'setPlayerLists', args: [lists] });
+  }
+
+  async init(): Promise<void> {
+    await this.call({ method: 'init', args: [] });
+  }
+
+  async generateLevel(profile: DifficultyProfile, seed?: number, options?: Partial<LayoutOptions>): Promise<LevelData> {
+    return checkResult(await this.call({ method: 'generateLevel', args: [profile, seed, options] }), isLevelData, 'generateLevel');
+  }
+
+  async isValidWord(word: string): Promise<boolean> {
+    return checkResult(await this.call({ method: 'isValidWord', args: [word] }), isBoolean, 'isValidWord');
+  }
+
+  async findWords(letters: string): Promise<string[]> {
+    return checkResult(await this.call({ method: 'findWords', args: [letters] }), isStringArray, 'findWords');
+  }
+}
+
+// Same API on the main thread, for environments without module workers.
+// The engine is imported lazily so it stays out of the main bundle otherwise; its chunks
+// are not precached, so this fallback needs the network the first time it runs.
+class LocalEngineClient implements EngineApi {
+  private readonly engine = import('./wordEngine.ts').then(m => m.wordEngine);
+
+  async setLanguage(code: LanguageCode): Promise<void> {
+    (await this.engine).setLanguage(getLanguage(code));
+  }
+
+  async setPlayerLists(lists: PlayerWordLists): Promise<void> {
+    (await this.engine).setPlayerLists(lists);
+  }
+
+  async init(): Promise<void> {
+    return (await this.engine).init();
+  }
+
+  async generateLevel(profile: DifficultyProfile, seed?: number, options?: Partial<LayoutOptions>): Promise<LevelData> {
+    return (await this.engine).generateLevel(profile, seed, options);
+  }
+
+  async isValidWord(word: string): Promise<boolean> {
+    return (await this.engine).isValidWord(word);
+  }
+
+  async findWords(letters: string): Promise<string[]> {
+    return (await this.engine).findWords(letters);
+  }
+}
+
+const createEngineClient = (): EngineApi => {
+  if (typeof Worker === 'undefined') {
+    console.warn("⚙️ EngineClient: Web Workers unavailable, running WordEngine on the main thread");
+    return new LocalEngineClient();
+  }
+  const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+  return new WorkerEngineClient(worker);
+};
+
+export const engine = createEngineClient();
@@ -0,0 +1,29 @@
+import { LevelData } from '../types.ts';
+import { DifficultyProfile } from './difficulty.ts';
+import { LayoutOptions } from './wordEngine.ts';
+import { LanguageCode } from './languages.ts';
+import { PlayerWordLists } from './curation.ts';
+
+// The async surface of the WordEngine, whether it runs in a worker or in-process.
+export interface EngineApi {
+  // Takes effect on the next init().
+  setLanguage(code: LanguageCode): Promise<void>;
+  // Applies at once; call after setLanguage, which clears them.
+  setPlayerLists(lists: PlayerWordLists): Promise<void>;
+  init(): Promise<void>;
+  generateLevel(profile: DifficultyProfile, seed?: number, options?: Partial<LayoutOptions>): Promise<LevelData>;
+  isValidWord(word: string): Promise<boolean>;
+  findWords(letters: string): Promise<string[]>;
+}
+
+export type EngineMethod = keyof EngineApi;
+
+export type EngineCall = {
+  [M in EngineMethod]: { method: M; args: Parameters<EngineApi[M]> }
+}[EngineMethod];
+
+export type EngineRequest = EngineCall & { id: number };
+
+export type EngineResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
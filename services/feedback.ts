@@ -0,0 +1,32 @@
+import { GuessOutcome, LevelSummary } from '../types.ts';
+
+// Things the player just did that the UI reacts to with motion, sound and vibration.
+export type FeedbackEvent =
+  | { type: 'guess'; outcome: GuessOutcome; word: string }
+  | { type: 'levelComplete'; summary: LevelSummary };
+
+type FeedbackListener = (event: FeedbackEvent) => void;
+
+const listeners = new Set<FeedbackListener>();
+
+export const emitFeedback = (event: FeedbackEvent): void => {
+  listeners.forEach(listener => listener(event));
+};
+
+// Returns the unsubscribe function, so it can be handed straight back from an effect.
+export const onFeedback = (listener: FeedbackListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Delay between letters as a found word fills into the grid.
+export const FILL_STEP_MS = 70;
+// How long a rejected path stays on the wheel.
+export const REJECT_MS = 450;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const reducedMotionQuery = (): MediaQueryList | null =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' ? window.matchMedia(REDUCED_MOTION_QUERY) : null;
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { feedbackManager, loadFeedbackSettings } from './feedbackManager.ts';
+import { GuessOutcome } from '../types.ts';
+
+const stubVibrate = () => {
+  const vibrate = vi.fn(() => true);
+  Object.defineProperty(navigator, 'vibrate', { value: vibrate, configurable: true });
+  return vibrate;
+};
+
+afterEach(() => {
+  feedbackManager.updateSettings({ sound: true, vibration: true });
+  localStorage.clear();
+});
+
+describe('feedbackManager', () => {
+  it('persists settings', () => {
+    feedbackManager.updateSettings({ sound: false });
+    expect(loadFeedbackSettings()).toEqual({ sound: false, vibration: true });
+    expect(feedbackManager.getSettings()).toEqual({ sound: false, vibration: true });
+  });
+
+  it('falls back to defaults for unreadable settings', () => {
+    localStorage.setItem('wordflow.feedbackSettings', '{"sound":"loud"');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadFeedbackSettings()).toEqual({ sound: true, vibration: true });
+  });
+
+  it('vibrates a distinct pattern per outcome', () => {
+    const vibrate = stubVibrate();
+    feedbackManager.play({ type: 'guess', outcome: GuessOutcome.VALID, word: 'stone' });
+    feedbackManager.play({ type: 'guess', outcome: GuessOutcome.INVALID, word: 'stoen' });
+    feedbackManager.play({ type: 'guess', outcome: GuessOutcome.ALREADY_FOUND, word: 'stone' });
+
+    expect(vibrate).toHaveBeenCalledTimes(2);
+    expect(vibrate.mock.calls[0]).not.toEqual(vibrate.mock.calls[1]);
+  });
+
+  it('stays still with vibration turned off', () => {
+    const vibrate = stubVibrate();
+    feedbackManager.updateSettings({ vibration: false });
+    feedbackManager.letterSelected(3);
+    feedbackManager.play({ type: 'guess', outcome: GuessOutcome.EXTRA, word: 'notes' });
+
+    expect(vibrate).not.toHaveBeenCalled();
+  });
+
+  it('only creates an audio context while sound is on', () => {
+    const Context = vi.fn(() => { throw new Error('no audio device'); });
+    vi.stubGlobal('AudioContext', Context);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    feedbackManager.updateSettings({ sound: false });
+    feedbackManager.letterSelected(1);
+    expect(Context).not.toHaveBeenCalled();
+
+    feedbackManager.updateSettings({ sound: true });
+    feedbackManager.letterSelected(1);
+    expect(Context).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,173 @@
+import { GuessOutcome } from '../types.ts';
+import { FeedbackEvent } from './feedback.ts';
+
+// Sounds are synthesized with WebAudio and vibrations go through navigator.vibrate,
+// both gated by settings the player can turn off.
+
+export interface FeedbackSettings {
+  sound: boolean;
+  vibration: boolean;
+}
+
+const SETTINGS_KEY = 'wordflow.feedbackSettings';
+const DEFAULT_SETTINGS: FeedbackSettings = { sound: true, vibration: true };
+
+export const loadFeedbackSettings = (): FeedbackSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return { ...DEFAULT_SETTINGS };
+    const saved = JSON.parse(raw);
+    return {
+      sound: typeof saved?.sound === 'boolean' ? saved.sound : DEFAULT_SETTINGS.sound,
+      vibration: typeof saved?.vibration === 'boolean' ? saved.vibration : DEFAULT_SETTINGS.vibration
+    };
+  } catch (err) {
+    console.warn("🔊 Feedback: Could not read settings", err);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+const saveFeedbackSettings = (settings: FeedbackSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("🔊 Feedback: Could not save settings", err);
+  }
+};
+
+// A note: frequency in Hz, start and length in seconds, optionally gliding to glideTo.
+interface Note {
+  freq: number;
+  at: number;
+  duration: number;
+  wave?: OscillatorType;
+  volume?: number;
+  glideTo?: number;
+}
+
+type Cue = 'found' | 'extra' | 'invalid' | 'complete';
+
+const C5 = 523.25, E5 = 659.25, G5 = 783.99, C6 = 1046.5, E6 = 1318.51;
+
+const CUES: Record<Cue, { notes: Note[]; vibration: number[] }> = {
+  found: {
+    notes: [
+      { freq: C5, at: 0, duration: 0.12, wave: 'triangle' },
+      { freq: E5, at: 0.07, duration: 0.12, wave: 'triangle' },
+      { freq: G5, at: 0.14, duration: 0.2, wave: 'triangle' }
+    ],
+    vibration: [25]
+  },
+  extra: {
+    notes: [
+      { freq: C6, at: 0, duration: 0.1, volume: 0.1 },
+      { freq: E6, at: 0.08, duration: 0.18, volume: 0.1 }
+    ],
+    vibration: [10, 40, 10]
+  },
+  invalid: {
+    notes: [{ freq: 180, at: 0, duration: 0.22, wave: 'square', volume: 0.06, glideTo: 110 }],
+    vibration: [40, 60, 40]
+  },
+  complete: {
+    notes: [
+      { freq: C5, at: 0, duration: 0.14, wave: 'triangle' },
+      { freq: E5, at: 0.1, duration: 0.14, wave: 'triangle' },
+      { freq: G5, at: 0.2, duration: 0.14, wave: 'triangle' },
+      { freq: C6, at: 0.3, duration: 0.5, wave: 'triangle' },
+      { freq: G5, at: 0.3, duration: 0.5, volume: 0.08 },
+      { freq: E5, at: 0.3, duration: 0.5, volume: 0.08 }
+    ],
+    vibration: [30, 50, 30, 50, 90]
+  }
+};
+
+// Major pentatonic steps above A4, so a growing path always sounds in key.
+const PATH_STEPS = [0, 2, 4, 7, 9, 12, 14, 16, 19, 21];
+const PATH_BASE_FREQ = 440;
+
+const cueFor = (event: FeedbackEvent): Cue | null => {
+  if (event.type === 'levelComplete') return 'complete';
+  switch (event.outcome) {
+    case GuessOutcome.VALID: return 'found';
+    case GuessOutcome.EXTRA: return 'extra';
+    case GuessOutcome.INVALID:
+    case GuessOutcome.TOO_SHORT: return 'invalid';
+    default: return null;
+  }
+};
+
+class FeedbackManager {
+  private settings = loadFeedbackSettings();
+  private context: AudioContext | null = null;
+
+  getSettings(): FeedbackSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(changes: Partial<FeedbackSettings>): FeedbackSettings {
+    this.settings = { ...this.settings, ...changes };
+    saveFeedbackSettings(this.settings);
+    return this.getSettings();
+  }
+
+  // pathLength: letters on the wheel path after the change, so the pitch follows it up and down.
+  letterSelected(pathLength: number): void {
+    const step = PATH_STEPS[Math.min(Math.max(pathLength - 1, 0), PATH_STEPS.length - 1)];
+    this.playNotes([{ freq: PATH_BASE_FREQ * Math.pow(2, step / 12), at: 0, duration: 0.09, volume: 0.08 }]);
+    this.vibrate(pathLength <= 1 ? [5] : [10]);
+  }
+
+  play(event: FeedbackEvent): void {
+    const cue = cueFor(event);
+    if (!cue) return;
+    this.playNotes(CUES[cue].notes);
+    this.vibrate(CUES[cue].vibration);
+  }
+
+  private vibrate(pattern: number[]): void {
+    if (!this.settings.vibration || typeof navigator === 'undefined' || !navigator.vibrate) return;
+    navigator.vibrate(pattern);
+  }
+
+  private playNotes(notes: Note[]): void {
+    if (!this.settings.sound) return;
+    const context = this.getContext();
+    if (!context) return;
+    const start = context.currentTime;
+    notes.forEach(({ freq, at, duration, wave = 'sine', volume = 0.12, glideTo }) => {
+      const osc = context.createOscillator();
+      const gain = context.createGain();
+      osc.type = wave;
+      osc.frequency.setValueAtTime(freq, start + at);
+      if (glideTo) osc.frequency.exponentialRampToValueAtTime(glideTo, start + at + duration);
+      // Short attack and exponential release, so notes do not click.
+      gain.gain.setValueAtTime(0.0001, start + at);
+      gain.gain.exponentialRampToValueAtTime(volume, start + at + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + at + duration);
+      osc.connect(gain).connect(context.destination);
+      osc.start(start + at);
+      osc.stop(start + at + duration + 0.02);
+    });
+  }
+
+  // Created on first use, which is always inside a gesture, so browsers let it start.
+  private getContext(): AudioContext | null {
+    if (!this.context) {
+      const Context = typeof window === 'undefined'
+        ? undefined
+        : window.AudioContext ?? (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!Context) return null;
+      try {
+        this.context = new Context();
+      } catch (err) {
+        console.warn("🔊 Feedback: Audio unavailable", err);
+        return null;
+      }
+    }
+    if (this.context.state === 'suspended') this.context.resume().catch(() => {});
+    return this.context;
+  }
+}
+
+export const feedbackManager = new FeedbackManager();
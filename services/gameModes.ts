@@ -0,0 +1,118 @@
+import { GameMode } from '../types.ts';
+import { isRecord } from './guards.ts';
+
+export interface ModeRules {
+  label: string;
+  // Countdown per level in seconds, or null for untimed play.
+  startSeconds: number | null;
+  // Seconds added for each crossword word found.
+  secondsPerWord: number;
+  // Whether words and bonus words earn points.
+  isScored: boolean;
+  // Hints cost nothing and never run out.
+  freeHints: boolean;
+  // Giving up replays the same level number instead of moving on.
+  replayAfterGiveUp: boolean;
+}
+
+export const MODE_RULES: Record<GameMode, ModeRules> = {
+  [GameMode.CLASSIC]: {
+    label: 'Classic',
+    startSeconds: null,
+    secondsPerWord: 0,
+    isScored: true,
+    freeHints: false,
+    replayAfterGiveUp: true
+  },
+  [GameMode.TIME_ATTACK]: {
+    label: 'Time Attack',
+    startSeconds: 90,
+    secondsPerWord: 10,
+    isScored: true,
+    freeHints: false,
+    replayAfterGiveUp: true
+  },
+  [GameMode.ZEN]: {
+    label: 'Zen',
+    startSeconds: null,
+    secondsPerWord: 0,
+    isScored: false,
+    freeHints: true,
+    replayAfterGiveUp: false
+  }
+};
+
+export const isGameMode = (value: unknown): value is GameMode =>
+  typeof value === 'string' && Object.hasOwn(MODE_RULES, value);
+
+const MODE_KEY = 'wordflow.mode';
+const BESTS_KEY = 'wordflow.modeBests.v1';
+
+export const loadModePreference = (): GameMode => {
+  try {
+    const saved = localStorage.getItem(MODE_KEY);
+    if (isGameMode(saved)) return saved;
+  } catch (err) {
+    console.warn("🎮 Modes: Could not read mode preference", err);
+  }
+  return GameMode.CLASSIC;
+};
+
+export const saveModePreference = (mode: GameMode): void => {
+  try {
+    localStorage.setItem(MODE_KEY, mode);
+  } catch (err) {
+    console.warn("🎮 Modes: Could not save mode preference", err);
+  }
+};
+
+export interface ModeBest {
+  highestLevel: number;
+  bestScore: number;
+  // Quickest level cleared, or null before the first clear.
+  fastestClearMs: number | null;
+}
+
+const emptyBest = (): ModeBest => ({ highestLevel: 0, bestScore: 0, fastestClearMs: null });
+
+// Keeps each stored field that has the right type and falls back to the empty best for the rest.
+const readBest = (value: unknown): ModeBest => {
+  const best = emptyBest();
+  if (!isRecord(value)) return best;
+  if (typeof value.highestLevel === 'number') best.highestLevel = value.highestLevel;
+  if (typeof value.bestScore === 'number') best.bestScore = value.bestScore;
+  if (typeof value.fastestClearMs === 'number') best.fastestClearMs = value.fastestClearMs;
+  return best;
+};
+
+export const loadModeBests = (): Record<GameMode, ModeBest> => {
+  let stored: unknown;
+  try {
+    const raw = localStorage.getItem(BESTS_KEY);
+    if (raw) stored = JSON.parse(raw);
+  } catch (err) {
+    console.warn("🎮 Modes: Could not read best results", err);
+  }
+  const bests = isRecord(stored) ? stored : {};
+  return {
+    [GameMode.CLASSIC]: readBest(bests[GameMode.CLASSIC]),
+    [GameMode.TIME_ATTACK]: readBest(bests[GameMode.TIME_ATTACK]),
+    [GameMode.ZEN]: readBest(bests[GameMode.ZEN])
+  };
+};
+
+// Folds one cleared endless level into the mode's bests.
+export const recordModeClear = (mode: GameMode, clear: { levelNumber: number; score: number; timeMs: number }): void => {
+  const bests = loadModeBests();
+  const best = bests[mode];
+  bests[mode] = {
+    highestLevel: Math.max(best.highestLevel, clear.levelNumber),
+    bestScore: Math.max(best.bestScore, clear.score),
+    fastestClearMs: best.fastestClearMs === null ? clear.timeMs : Math.min(best.fastestClearMs, clear.timeMs)
+  };
+  try {
+    localStorage.setItem(BESTS_KEY, JSON.stringify(bests));
+  } catch (err) {
+    console.warn("🎮 Modes: Could not store best results", err);
+  }
+};
@@ -0,0 +1,16 @@
+import { PlacedWord } from '../types.ts';
+
+// Checks for data read back from storage or files, which is untyped until it passes them.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+export const isPlacedWord = (value: unknown): value is PlacedWord =>
+  isRecord(value) &&
+  typeof value.word === 'string' &&
+  Number.isInteger(value.x) &&
+  Number.isInteger(value.y) &&
+  (value.direction === 'horizontal' || value.direction === 'vertical');
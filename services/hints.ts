@@ -0,0 +1,117 @@
+import { HintState, HintType, LevelData, PlacedWord } from '../types.ts';
+import { getLanguage, toDisplayCase } from './languages.ts';
+
+export type HintCosts = Record<HintType, number>;
+
+export const DEFAULT_HINT_COSTS: HintCosts = {
+  [HintType.LETTER]: 25,
+  [HintType.WORD]: 75,
+  [HintType.FIRST_LETTERS]: 50,
+  [HintType.STARTING_LETTERS]: 20
+};
+
+export const HINT_LABELS: Record<HintType, string> = {
+  [HintType.LETTER]: 'Reveal a letter',
+  [HintType.WORD]: 'Reveal a word',
+  [HintType.FIRST_LETTERS]: 'First letters',
+  [HintType.STARTING_LETTERS]: 'Starting letters'
+};
+
+// Hints that wait for the player to tap a word on the grid.
+export const TARGETED_HINTS: ReadonlySet<HintType> = new Set([HintType.LETTER]);
+
+export const cellKey = (x: number, y: number): string => `${x},${y}`;
+
+export const wordCells = (pw: PlacedWord): string[] =>
+  Array.from(pw.word, (_, i) => pw.direction === 'horizontal' ? cellKey(pw.x + i, pw.y) : cellKey(pw.x, pw.y + i));
+
+export const createHintState = (): HintState => ({
+  revealedCells: new Set(),
+  showStartingLetters: false,
+  usage: {
+    [HintType.LETTER]: 0,
+    [HintType.WORD]: 0,
+    [HintType.FIRST_LETTERS]: 0,
+    [HintType.STARTING_LETTERS]: 0
+  }
+});
+
+export const totalHintsUsed = (hints: HintState): number =>
+  Object.values(hints.usage).reduce((sum, n) => sum + n, 0);
+
+// Cells the player can currently read: part of a found word or revealed by a hint.
+export const visibleCells = (level: LevelData, hints: HintState): Set<string> => {
+  const visible = new Set(hints.revealedCells);
+  level.placedWords.forEach(pw => {
+    if (level.foundWords.has(pw.word)) wordCells(pw).forEach(key => visible.add(key));
+  });
+  return visible;
+};
+
+export interface HintOutcome {
+  hints: HintState;
+  // Unfound words whose every cell is now visible; they count as found.
+  solvedWords: string[];
+}
+
+// Returns null when the hint would reveal nothing, so the player is not charged.
+export const applyHint = (level: LevelData, hints: HintState, type: HintType, targetCell?: string): HintOutcome | null => {
+  const visible = visibleCells(level, hints);
+  const unfound = level.placedWords.filter(pw => !level.foundWords.has(pw.word));
+  const revealed = new Set(hints.revealedCells);
+  let showStartingLetters = hints.showStartingLetters;
+
+  switch (type) {
+    case HintType.LETTER: {
+      if (!targetCell) return null;
+      if (!visible.has(targetCell) && unfound.some(pw => wordCells(pw).includes(targetCell))) {
+        revealed.add(targetCell);
+        break;
+      }
+      // The tapped cell is already readable: reveal the next hidden letter of a word through it.
+      const word = unfound.find(pw => wordCells(pw).includes(targetCell) && wordCells(pw).some(k => !visible.has(k)));
+      if (!word) return null;
+      revealed.add(wordCells(word).find(k => !visible.has(k))!);
+      break;
+    }
+    case HintType.WORD: {
+      const candidates = unfound.filter(pw => wordCells(pw).some(k => !visible.has(k)));
+      if (candidates.length === 0) return null;
+      const word = candidates[Math.floor(Math.random() * candidates.length)];
+      wordCells(word).forEach(key => revealed.add(key));
+      break;
+    }
+    case HintType.FIRST_LETTERS: {
+      const firsts = unfound.map(pw => wordCells(pw)[0]).filter(key => !visible.has(key));
+      if (firsts.length === 0) return null;
+      firsts.forEach(key => revealed.add(key));
+      break;
+    }
+    case HintType.STARTING_LETTERS: {
+      if (showStartingLetters || unfound.length === 0) return null;
+      showStartingLetters = true;
+      break;
+    }
+  }
+
+  const nowVisible = new Set([...visible, ...revealed]);
+  const solvedWords = unfound.filter(pw => wordCells(pw).every(k => nowVisible.has(k))).map(pw => pw.word);
+
+  return {
+    hints: {
+      revealedCells: revealed,
+      showStartingLetters,
+      usage: { ...hints.usage, [type]: hints.usage[type] + 1 }
+    },
+    solvedWords
+  };
+};
+
+// Wheel tiles whose letter starts a word that is still unfound.
+export const startingLetterIndices = (level: LevelData, displayLetters: string[]): number[] => {
+  const { locale } = getLanguage(level.language);
+  const starts = new Set(
+    level.placedWords.filter(pw => !level.foundWords.has(pw.word)).map(pw => toDisplayCase(pw.word[0], locale))
+  );
+  return displayLetters.flatMap((letter, i) => starts.has(letter) ? [i] : []);
+};
@@ -0,0 +1,162 @@
+import {
+  BundledDictionarySource, DictionarySource, MemoryDictionarySource, RemoteDictionarySource
+} from './dictionarySource.ts';
+
+export type LanguageCode = 'en' | 'sv' | 'de' | 'es';
+
+export interface LanguageConfig {
+  code: LanguageCode;
+  // Native name, shown in the language picker.
+  name: string;
+  // BCP 47 locale for case mapping.
+  locale: string;
+  // Lowercase letters a playable word may consist of.
+  alphabet: string;
+  vowels: string;
+  // Lowercase letters folded before filtering, e.g. accents the game ignores.
+  letterFolding: Record<string, string>;
+  // Hand-picked exclusions, on top of the deny lists.
+  blacklist: string[];
+  // Always in the dictionary and ranked as most common, even when a deny list has them.
+  priorityWords: string[];
+  // Tried in order until one loads. A bundled list goes first: seeded and daily levels are only
+  // the same everywhere if every player builds them from the same dictionary, online or not.
+  sources: DictionarySource[];
+  // Bundled profanity and proper-noun lists, loaded alongside the dictionary.
+  denyLists: DictionarySource[];
+}
+
+// Bundled word lists: most-common-words-by-language (MIT), top 10k per language by frequency
+// (see data/words/LICENSE-most-common-words.txt).
+const bundled = (code: LanguageCode, load: () => Promise<{ default: string }>) =>
+  new BundledDictionarySource(`bundled:${code}`, () => load().then(m => m.default));
+
+// Curated deny lists in data/curation/<code>/.
+const denyList = (name: string, load: () => Promise<{ default: string }>) =>
+  new BundledDictionarySource(`deny:${name}`, () => load().then(m => m.default));
+
+export const ENGLISH: LanguageConfig = {
+  code: 'en',
+  name: 'English',
+  locale: 'en',
+  alphabet: 'abcdefghijklmnopqrstuvwxyz',
+  vowels: 'aeiouy',
+  letterFolding: {},
+  blacklist: [
+    'fran', 'brad', 'greg', 'ebay', 'sony', 'dell', 'nike', 'levi', 'visa', 'ford', 
+    'fiat', 'asda', 'audi', 'hugo', 'marc', 'jean', 'paul', 'ivan', 'karl', 'erik',
+    'http', 'html', 'www', 'com', 'org', 'blog', 'site', 'user', 'java', 'linux', 
+    'unix', 'xml', 'json', 'wifi', 'apps', 'tech', 'data', 'file', 'link', 'code',
+    'ipad', 'ipod', 'xbox', 'psn', 'bios', 'ping', 'pong', 'null', 'void',
+    'july', 'june', 'sept', 'octo', 'nov', 'dec', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'
+  ],
+  priorityWords: [
+    'nigh', 'fain', 'yore', 'lore', 'bard', 'sage', 'vale', 'moor', 'vial', 
+    'helm', 'rune', 'mead', 'thou', 'thee', 'quoth', 'wrought', 'blithe', 
+    'stark', 'grim', 'vane', 'reed'
+  ],
+  sources: [
+    bundled('en', () => import('../data/words/en.txt?raw')),
+    new RemoteDictionarySource('https://raw.githubusercontent.com/first20hours/google-10000-english/master/20k.txt'),
+    new MemoryDictionarySource([
+      "rust", "trust", "star", "stair", "trail", "train", "react", "trace", "cater", "crate", "great", "gear",
+      "read", "dear", "care", "race", "word", "flow", "wolf", "blue", "glow", "slow", "fast", "lake", "peak",
+      "beam", "team", "nigh", "lore", "bard", "sage"
+    ], 'fallback:en')
+  ],
+  denyLists: [
+    denyList('en/profanity', () => import('../data/curation/en/profanity.txt?raw')),
+    denyList('en/proper-nouns', () => import('../data/curation/en/proper-nouns.txt?raw'))
+  ]
+};
+
+export const SWEDISH: LanguageConfig = {
+  code: 'sv',
+  name: 'Svenska',
+  locale: 'sv',
+  alphabet: 'abcdefghijklmnopqrstuvwxyzåäö',
+  vowels: 'aeiouyåäö',
+  letterFolding: { 'é': 'e', 'è': 'e', 'à': 'a', 'ü': 'y' },
+  blacklist: [
+    'anna', 'erik', 'lars', 'johan', 'peter', 'maria', 'karl', 'jack', 'john', 'mike', 'julia', 'julian',
+    'juan', 'lina', 'sara', 'emma', 'okej', 'juni', 'juli', 'mars', 'april', 'maj', 'augusti'
+  ],
+  priorityWords: ['fager', 'ljuv', 'dvärg', 'runa', 'saga', 'skald', 'vålnad', 'ting'],
+  sources: [bundled('sv', () => import('../data/words/sv.txt?raw'))],
+  denyLists: [denyList('sv/profanity', () => import('../data/curation/sv/profanity.txt?raw'))]
+};
+
+export const GERMAN: LanguageConfig = {
+  code: 'de',
+  name: 'Deutsch',
+  locale: 'de',
+  alphabet: 'abcdefghijklmnopqrstuvwxyzäöüß',
+  vowels: 'aeiouyäöü',
+  letterFolding: { 'é': 'e', 'è': 'e', 'à': 'a', 'ç': 'c', 'ñ': 'n', 'ô': 'o' },
+  blacklist: [
+    'hans', 'peter', 'anna', 'anne', 'maria', 'jack', 'john', 'mike', 'kane', 'okay', 'juni', 'juli',
+    'april', 'august', 'thomas', 'frank', 'paul', 'klaus'
+  ],
+  priorityWords: ['ross', 'maid', 'recke', 'hain', 'minne', 'odem', 'gram'],
+  sources: [bundled('de', () => import('../data/words/de.txt?raw'))],
+  denyLists: [denyList('de/profanity', () => import('../data/curation/de/profanity.txt?raw'))]
+};
+
+export const SPANISH: LanguageConfig = {
+  code: 'es',
+  name: 'Español',
+  locale: 'es',
+  alphabet: 'abcdefghijklmnñopqrstuvwxyz',
+  vowels: 'aeiouy',
+  // Spanish crosswords ignore accents but keep ñ.
+  letterFolding: { 'á': 'a', 'é': 'e', 'í': 'i', 'ó': 'o', 'ú': 'u', 'ü': 'u', 'ç': 'c' },
+  blacklist: [
+    'jack', 'john', 'mike', 'frank', 'charlie', 'harry', 'okay', 'maria', 'jose', 'juan', 'dana', 'dean',
+    'carlos', 'pedro', 'david', 'sara', 'julio', 'junio', 'abril'
+  ],
+  priorityWords: ['otrora', 'yelmo', 'doncel', 'hidalgo', 'juglar', 'aldaba'],
+  sources: [bundled('es', () => import('../data/words/es.txt?raw'))],
+  denyLists: [denyList('es/profanity', () => import('../data/curation/es/profanity.txt?raw'))]
+};
+
+export const LANGUAGES: Record<LanguageCode, LanguageConfig> = {
+  en: ENGLISH,
+  sv: SWEDISH,
+  de: GERMAN,
+  es: SPANISH
+};
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
+
+export const getLanguage = (code: LanguageCode): LanguageConfig => LANGUAGES[code];
+
+// Upper-cases for display letter by letter, keeping letters whose upper case
+// is longer (German ß -> SS) so one tile stays one letter.
+export const toDisplayCase = (text: string, locale: string): string =>
+  Array.from(text, ch => {
+    const upper = ch.toLocaleUpperCase(locale);
+    return upper.length === ch.length ? upper : ch;
+  }).join('');
+
+export const toWordCase = (text: string, locale: string): string => text.toLocaleLowerCase(locale);
+
+const PREFERENCE_KEY = 'wordflow.language';
+
+export const loadLanguagePreference = (): LanguageCode => {
+  try {
+    const saved = localStorage.getItem(PREFERENCE_KEY);
+    if (isLanguageCode(saved)) return saved;
+  } catch (err) {
+    console.warn("🌐 Languages: Could not read language preference", err);
+  }
+  return 'en';
+};
+
+export const saveLanguagePreference = (code: LanguageCode): void => {
+  try {
+    localStorage.setItem(PREFERENCE_KEY, code);
+  } catch (err) {
+    console.warn("🌐 Languages: Could not save language preference", err);
+  }
+};
@@ -0,0 +1,194 @@
+import { LevelData, PlacedWord } from '../types.ts';
+import { LanguageCode, getLanguage, isLanguageCode } from './languages.ts';
+import { hashString } from './random.ts';
+import { wordCells } from './hints.ts';
+import { isPlacedWord, isRecord, isStringArray } from './guards.ts';
+
+// Bump when the file shape changes; files from other versions are rejected.
+export const LEVEL_FORMAT_VERSION = 1;
+const FORMAT_NAME = 'wordflow-pack';
+
+// One level as stored in a pack. Found/extra/revealed words are play state and never stored.
+export interface LevelFile {
+  title?: string;
+  author?: string;
+  language: LanguageCode;
+  // Optional; packs written by hand can leave it out and get one derived from the grid.
+  seed?: number;
+  rootLetters: string;
+  // Wheel order, one letter per tile.
+  displayLetters: string[];
+  placedWords: PlacedWord[];
+  gridWidth: number;
+  gridHeight: number;
+}
+
+export interface LevelPack {
+  format: typeof FORMAT_NAME;
+  version: number;
+  title?: string;
+  author?: string;
+  levels: LevelFile[];
+}
+
+const sortLetters = (letters: string): string => Array.from(letters).sort().join('');
+
+// True when every letter of word is available in root, counting repeats.
+const fitsLetters = (word: string, root: string): boolean => {
+  const counts = new Map<string, number>();
+  for (const char of root) counts.set(char, (counts.get(char) ?? 0) + 1);
+  for (const char of word) {
+    const left = counts.get(char) ?? 0;
+    if (left === 0) return false;
+    counts.set(char, left - 1);
+  }
+  return true;
+};
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+// Every problem found in one level, as readable messages; empty when the level is playable.
+export const validateLevel = (file: unknown): string[] => {
+  if (!isRecord(file)) return ['level is not an object'];
+  const problems: string[] = [];
+  const { language, seed, title, author, rootLetters: root, displayLetters, gridWidth, gridHeight, placedWords } = file;
+
+  const hasLanguage = isLanguageCode(language);
+  const hasRoot = typeof root === 'string' && root.length > 0;
+  const hasWheel = isStringArray(displayLetters) && displayLetters.every(l => l.length === 1);
+  const hasSize = isPositiveInteger(gridWidth) && isPositiveInteger(gridHeight);
+  const hasWords = Array.isArray(placedWords) && placedWords.length > 0;
+  if (!hasLanguage) problems.push(`unknown language "${language}"`);
+  if (seed !== undefined && !Number.isInteger(seed)) problems.push('seed must be an integer');
+  if (!isOptionalString(title) || !isOptionalString(author)) problems.push('title and author must be text');
+  if (!hasRoot) problems.push('rootLetters is missing');
+  if (!hasWheel) problems.push('displayLetters must be a list of single letters');
+  if (!hasSize) problems.push('gridWidth and gridHeight must be positive integers');
+  if (!hasWords) problems.push('placedWords is empty');
+  if (!hasLanguage || !hasRoot || !hasWheel || !hasSize || !hasWords || problems.length > 0) return problems;
+
+  const { locale, alphabet } = getLanguage(language);
+  if (Array.from(root).some(char => !alphabet.includes(char))) {
+    problems.push(`rootLetters "${root}" must be lower case letters of the level's alphabet`);
+  }
+  const wheel = displayLetters.map(l => l.toLocaleLowerCase(locale)).join('');
+  if (sortLetters(wheel) !== sortLetters(root)) {
+    problems.push(`displayLetters "${displayLetters.join('')}" are not the root letters "${root}"`);
+  }
+
+  const cells = new Map<string, { char: string; directions: PlacedWord['direction'][] }>();
+  const seen = new Set<string>();
+  let minX = Infinity, minY = Infinity, maxX = 0, maxY = 0;
+  placedWords.forEach((pw: unknown, i: number) => {
+    const label = `placedWords[${i}]`;
+    if (!isPlacedWord(pw)) {
+      problems.push(`${label} needs word, integer x/y and a direction`);
+      return;
+    }
+    if (pw.word.length < 3) problems.push(`${label} "${pw.word}" is shorter than 3 letters`);
+    if (seen.has(pw.word)) problems.push(`${label} "${pw.word}" is placed twice`);
+    seen.add(pw.word);
+    if (!fitsLetters(pw.word, root)) problems.push(`${label} "${pw.word}" cannot be spelled from "${root}"`);
+    if (pw.x < 0 || pw.y < 0) problems.push(`${label} "${pw.word}" starts outside the grid`);
+
+    wordCells(pw).forEach((key, j) => {
+      const [x, y] = key.split(',').map(Number);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+      const char = pw.word[j];
+      const cell = cells.get(key);
+      if (!cell) {
+        cells.set(key, { char, directions: [pw.direction] });
+        return;
+      }
+      if (cell.char !== char) problems.push(`${label} "${pw.word}" puts "${char}" on "${cell.char}" at ${key}`);
+      if (cell.directions.includes(pw.direction)) problems.push(`${label} "${pw.word}" overlaps a ${pw.direction} word at ${key}`);
+      cell.directions.push(pw.direction);
+    });
+  });
+
+  // The grid is the words' bounding box, anchored at 0,0 like generated levels.
+  if (problems.length === 0 && (minX !== 0 || minY !== 0)) problems.push('the top row and left column are empty');
+  if (problems.length === 0 && (maxX + 1 !== gridWidth || maxY + 1 !== gridHeight)) {
+    problems.push(`grid is ${gridWidth}x${gridHeight} but the words span ${maxX + 1}x${maxY + 1}`);
+  }
+  return problems;
+};
+
+export const isLevelFile = (value: unknown): value is LevelFile => validateLevel(value).length === 0;
+
+// Parses and validates a pack, throwing with every problem listed if any level is unusable.
+export const parseLevelPack = (json: string): LevelPack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Level pack is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== FORMAT_NAME) throw new Error('Not a WordFlow level pack');
+  const { version, title, author, levels } = data;
+  if (version !== LEVEL_FORMAT_VERSION) {
+    throw new Error(`Level pack version ${version} is not supported (expected ${LEVEL_FORMAT_VERSION})`);
+  }
+  if (!isOptionalString(title) || !isOptionalString(author)) throw new Error('Level pack title and author must be text');
+  if (!Array.isArray(levels) || levels.length === 0) throw new Error('Level pack has no levels');
+
+  if (!levels.every(isLevelFile)) {
+    const problems = levels.flatMap((level: unknown, i: number) =>
+      validateLevel(level).map(problem => `level ${i + 1}: ${problem}`));
+    throw new Error(`Level pack is invalid:\n${problems.join('\n')}`);
+  }
+  // Extra words are checked against one dictionary, so a pack is played in a single language.
+  if (new Set(levels.map(level => level.language)).size > 1) {
+    throw new Error('Level pack mixes languages');
+  }
+  return { format: FORMAT_NAME, version, title, author, levels };
+};
+
+export const toLevelFile = (level: LevelData, meta: Pick<LevelFile, 'title' | 'author'> = {}): LevelFile => ({
+  ...meta,
+  language: level.language,
+  seed: level.seed,
+  rootLetters: level.rootLetters,
+  displayLetters: level.displayLetters,
+  placedWords: level.placedWords.map(({ word, x, y, direction }) => ({ word, x, y, direction })),
+  gridWidth: level.gridWidth,
+  gridHeight: level.gridHeight
+});
+
+export const fromLevelFile = (file: LevelFile): LevelData => ({
+  seed: file.seed ?? hashString(JSON.stringify(file.placedWords)),
+  language: file.language,
+  rootLetters: sortLetters(file.rootLetters),
+  displayLetters: [...file.displayLetters],
+  validWords: file.placedWords.map(pw => pw.word),
+  placedWords: file.placedWords,
+  gridWidth: file.gridWidth,
+  gridHeight: file.gridHeight,
+  foundWords: new Set<string>(),
+  extraWords: new Set<string>(),
+  revealedWords: new Set<string>()
+});
+
+export const createLevelPack = (levels: LevelFile[], meta: Pick<LevelPack, 'title' | 'author'> = {}): LevelPack => ({
+  format: FORMAT_NAME,
+  version: LEVEL_FORMAT_VERSION,
+  ...meta,
+  levels
+});
+
+// Saves the pack as a .json file through the browser's download flow.
+export const downloadLevelPack = (pack: LevelPack): void => {
+  const first = pack.levels[0];
+  const url = URL.createObjectURL(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `wordflow-${first.language}-${first.seed ?? 'pack'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
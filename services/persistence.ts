@@ -0,0 +1,155 @@
+import { GameMode, HintState, HintType, LevelData } from '../types.ts';
+import { LanguageCode, isLanguageCode } from './languages.ts';
+import { isPlacedWord, isRecord, isStringArray } from './guards.ts';
+
+const STORAGE_KEY = 'wordflow.progress';
+
+// Each mode keeps its own endless run; classic keeps the original key.
+const storageKey = (mode: GameMode): string =>
+  mode === GameMode.CLASSIC ? STORAGE_KEY : `${STORAGE_KEY}.${mode.toLowerCase()}`;
+
+// The daily run in progress, one per language.
+const dailyStorageKey = (language: LanguageCode): string => `${STORAGE_KEY}.daily.${language}`;
+
+// Bump whenever the saved shape changes. Older saves are discarded, not migrated.
+export const SCHEMA_VERSION = 6;
+
+export interface GameProgress {
+  score: number;
+  levelNumber: number;
+  level: LevelData;
+  displayLetters: string[];
+  hints: HintState;
+  isSkipped: boolean;
+  bonusProgress: number;
+  freeHints: number;
+  levelComplete: boolean;
+  // Seconds left on a time-attack level; null when untimed.
+  timeLeft: number | null;
+}
+
+type SavedLevel = Omit<LevelData, 'foundWords' | 'extraWords' | 'revealedWords'> & {
+  foundWords: string[];
+  extraWords: string[];
+  revealedWords: string[];
+};
+
+type SavedHints = Omit<HintState, 'revealedCells'> & { revealedCells: string[] };
+
+interface SavedProgress extends Omit<GameProgress, 'level' | 'hints'> {
+  version: number;
+  // Set on a daily run: the date of the puzzle it belongs to.
+  dailyKey?: string;
+  level: SavedLevel;
+  hints: SavedHints;
+}
+
+const isSavedLevel = (value: unknown): value is SavedLevel =>
+  isRecord(value) &&
+  typeof value.seed === 'number' &&
+  isLanguageCode(value.language) &&
+  typeof value.rootLetters === 'string' &&
+  isStringArray(value.displayLetters) &&
+  isStringArray(value.validWords) &&
+  isStringArray(value.foundWords) &&
+  isStringArray(value.extraWords) &&
+  isStringArray(value.revealedWords) &&
+  Array.isArray(value.placedWords) &&
+  value.placedWords.every(isPlacedWord) &&
+  Number.isInteger(value.gridWidth) &&
+  Number.isInteger(value.gridHeight);
+
+const isHintUsage = (value: unknown): value is HintState['usage'] =>
+  isRecord(value) && Object.values(HintType).every(type => typeof value[type] === 'number');
+
+const isSavedHints = (value: unknown): value is SavedHints =>
+  isRecord(value) &&
+  isStringArray(value.revealedCells) &&
+  typeof value.showStartingLetters === 'boolean' &&
+  isHintUsage(value.usage);
+
+const isSavedProgress = (value: unknown): value is SavedProgress =>
+  isRecord(value) &&
+  typeof value.score === 'number' &&
+  typeof value.levelNumber === 'number' &&
+  isSavedLevel(value.level) &&
+  isStringArray(value.displayLetters) &&
+  isSavedHints(value.hints) &&
+  typeof value.isSkipped === 'boolean' &&
+  typeof value.bonusProgress === 'number' &&
+  typeof value.freeHints === 'number' &&
+  typeof value.levelComplete === 'boolean' &&
+  (value.timeLeft === null || typeof value.timeLeft === 'number') &&
+  (value.dailyKey === undefined || typeof value.dailyKey === 'string');
+
+const writeProgress = (key: string, progress: GameProgress, dailyKey?: string): void => {
+  const saved: SavedProgress = {
+    ...progress,
+    version: SCHEMA_VERSION,
+    dailyKey,
+    level: {
+      ...progress.level,
+      foundWords: [...progress.level.foundWords],
+      extraWords: [...progress.level.extraWords],
+      revealedWords: [...progress.level.revealedWords]
+    },
+    hints: { ...progress.hints, revealedCells: [...progress.hints.revealedCells] }
+  };
+  try {
+    localStorage.setItem(key, JSON.stringify(saved));
+  } catch (err) {
+    console.warn("💾 Persistence: Could not save progress", err);
+  }
+};
+
+const readProgress = (key: string): SavedProgress | null => {
+  let data: unknown;
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    data = JSON.parse(raw);
+  } catch (err) {
+    console.warn("💾 Persistence: Saved progress is unreadable, starting fresh", err);
+    return null;
+  }
+
+  const version = isRecord(data) ? data.version : undefined;
+  if (version !== SCHEMA_VERSION) {
+    console.info(`💾 Persistence: Discarding save from schema ${version} (current ${SCHEMA_VERSION})`);
+    return null;
+  }
+  if (!isSavedProgress(data)) {
+    console.warn("💾 Persistence: Saved progress is corrupt, starting fresh");
+    return null;
+  }
+  return data;
+};
+
+const fromSaved = ({ version, dailyKey, ...rest }: SavedProgress): GameProgress => ({
+  ...rest,
+  level: {
+    ...rest.level,
+    foundWords: new Set(rest.level.foundWords),
+    extraWords: new Set(rest.level.extraWords),
+    revealedWords: new Set(rest.level.revealedWords)
+  },
+  hints: { ...rest.hints, revealedCells: new Set(rest.hints.revealedCells) }
+});
+
+export const saveProgress = (mode: GameMode, progress: GameProgress): void =>
+  writeProgress(storageKey(mode), progress);
+
+export const loadProgress = (mode: GameMode): GameProgress | null => {
+  const saved = readProgress(storageKey(mode));
+  return saved && fromSaved(saved);
+};
+
+// Saved from the moment the daily puzzle is dealt, so leaving and coming back resumes
+// the attempt rather than starting it over. A new day's run replaces the old one.
+export const saveDailyProgress = (dailyKey: string, progress: GameProgress): void =>
+  writeProgress(dailyStorageKey(progress.level.language), progress, dailyKey);
+
+export const loadDailyProgress = (dailyKey: string, language: LanguageCode): GameProgress | null => {
+  const saved = readProgress(dailyStorageKey(language));
+  return saved?.dailyKey === dailyKey ? fromSaved(saved) : null;
+};
@@ -0,0 +1,106 @@
+import { PlacedWord } from '../types.ts';
+
+type Direction = PlacedWord['direction'];
+
+// Letters on the board and the directions of the words through each cell, keyed "x,y".
+export interface PlacementGrid {
+  letters: Map<string, string>;
+  directions: Map<string, Direction[]>;
+}
+
+export const createPlacementGrid = (placed: PlacedWord[] = []): PlacementGrid => {
+  const grid: PlacementGrid = { letters: new Map(), directions: new Map() };
+  placed.forEach(pw => addToGrid(grid, pw));
+  return grid;
+};
+
+// Writes the word's letters; returns how many of its cells were already occupied.
+export const addToGrid = (grid: PlacementGrid, { word, x, y, direction }: PlacedWord): number => {
+  let shared = 0;
+  for (let i = 0; i < word.length; i++) {
+    const key = direction === 'horizontal' ? `${x + i},${y}` : `${x},${y + i}`;
+    if (grid.letters.has(key)) shared++;
+    grid.letters.set(key, word[i]);
+    if (!grid.directions.has(key)) grid.directions.set(key, []);
+    grid.directions.get(key)!.push(direction);
+  }
+  return shared;
+};
+
+// Returns how many existing words the placement crosses, or -1 if it is illegal:
+// a clashing letter, running along another word, or touching a word anywhere but a crossing.
+export const countCrossings = (grid: PlacementGrid, word: string, x: number, y: number, dir: Direction): number => {
+  let crossed = 0;
+  for (let i = 0; i < word.length; i++) {
+    const curX = dir === 'horizontal' ? x + i : x;
+    const curY = dir === 'horizontal' ? y : y + i;
+    const char = word[i];
+    const key = `${curX},${curY}`;
+
+    const existing = grid.letters.get(key);
+    let isIntersectionCell = false;
+    if (existing) {
+      if (existing !== char) return -1;
+      const dirsAtCell = grid.directions.get(key) || [];
+      if (dirsAtCell.length >= 2 || dirsAtCell[0] === dir) return -1;
+      isIntersectionCell = true;
+      crossed++;
+    }
+
+    const adjacents = [
+      { x: curX - 1, y: curY, label: 'left' },
+      { x: curX + 1, y: curY, label: 'right' },
+      { x: curX, y: curY - 1, label: 'up' },
+      { x: curX, y: curY + 1, label: 'down' }
+    ];
+
+    for (const adj of adjacents) {
+      const adjKey = `${adj.x},${adj.y}`;
+      if (grid.letters.has(adjKey)) {
+        const isWordFlow = (dir === 'horizontal' && (adj.label === 'left' || adj.label === 'right')) ||
+                           (dir === 'vertical' && (adj.label === 'up' || adj.label === 'down'));
+        if (isWordFlow) {
+          if (i === 0 && adj.label === 'left') return -1;
+          if (i === word.length - 1 && adj.label === 'right') return -1;
+          if (dir === 'vertical') {
+            if (i === 0 && adj.label === 'up') return -1;
+            if (i === word.length - 1 && adj.label === 'down') return -1;
+          }
+        } else {
+          if (!isIntersectionCell) return -1;
+        }
+      }
+    }
+  }
+  return crossed;
+};
+
+// Words on a hand-built board that break the generator's rules, by index, with the reason.
+// Each word is checked against all the others; every word must also connect to the first.
+export const findViolations = (placed: PlacedWord[]): Map<number, string> => {
+  const violations = new Map<number, string>();
+  placed.forEach((pw, i) => {
+    const others = createPlacementGrid(placed.filter((_, j) => j !== i));
+    if (countCrossings(others, pw.word, pw.x, pw.y, pw.direction) < 0) {
+      violations.set(i, 'clashes with or touches another word');
+    }
+  });
+
+  const cellsOf = placed.map(pw => Array.from(pw.word, (_, i) =>
+    pw.direction === 'horizontal' ? `${pw.x + i},${pw.y}` : `${pw.x},${pw.y + i}`));
+  const connected = new Set(placed.length > 0 ? [0] : []);
+  const queue = [...connected];
+  while (queue.length > 0) {
+    const current = new Set(cellsOf[queue.shift()!]);
+    cellsOf.forEach((cells, j) => {
+      if (!connected.has(j) && cells.some(cell => current.has(cell))) {
+        connected.add(j);
+        queue.push(j);
+      }
+    });
+  }
+  placed.forEach((_, i) => {
+    if (!connected.has(i) && !violations.has(i)) violations.set(i, 'is not connected to the rest of the crossword');
+  });
+  return violations;
+};
@@ -0,0 +1,44 @@
+// Small seedable PRNG so a level can be reproduced from its seed.
+// mulberry32: fast, 32-bit state, good enough for shuffling and picking words.
+
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+export const hashString = (value: string): number => {
+  // FNV-1a, used to turn stable strings (e.g. a date) into seeds.
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const shuffle = <T>(items: T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// A shuffle that always changes the order, unless every item is the same.
+export const reshuffle = <T>(items: T[], rng: Rng): T[] => {
+  if (new Set(items).size < 2) return [...items];
+  let result = shuffle(items, rng);
+  while (result.every((item, i) => item === items[i])) result = shuffle(items, rng);
+  return result;
+};
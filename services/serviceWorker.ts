@@ -0,0 +1,51 @@
+// Registers the offline service worker built by vite.config.ts and tells the app when a new
+// version has installed. The new version waits until the app asks for it, so nothing
+// changes under a player mid-level.
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  console.info("📶 ServiceWorker: New version ready");
+  listeners.forEach(listener => listener());
+};
+
+// Calls back once an update is ready, straight away if one already is. Returns an unsubscribe function.
+export const onUpdateReady = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  if (waitingWorker) listener();
+  return () => listeners.delete(listener);
+};
+
+// Swaps in the waiting version and reloads once it has taken control.
+export const applyUpdate = (): void => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+// Production only: in development Vite serves modules that are not in the precache list.
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.register('./service-worker.js');
+    console.log("📶 ServiceWorker: Registered");
+    // With no controller this is the first install, which activates without waiting.
+    const isUpdate = () => navigator.serviceWorker.controller !== null;
+
+    if (registration.waiting && isUpdate()) setWaiting(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && isUpdate()) setWaiting(worker);
+      });
+    });
+    // Long sessions still hear about releases: look again whenever the app comes back into view.
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => {});
+    });
+  } catch (err) {
+    console.warn("📶 ServiceWorker: Registration failed", err);
+  }
+};
@@ -0,0 +1,147 @@
+import { GameMode, GuessOutcome, PuzzleSource } from '../types.ts';
+import { LanguageCode, isLanguageCode } from './languages.ts';
+import { isRecord } from './guards.ts';
+import { isGameMode } from './gameModes.ts';
+
+const STORAGE_KEY = 'wordflow.stats.v1';
+
+// Oldest entries are dropped past this, so storage stays small on long runs.
+const HISTORY_LIMIT = 100;
+
+export interface LevelRecord {
+  // ISO timestamp of when the level ended.
+  finishedAt: string;
+  source: PuzzleSource;
+  // Endless level number or position in a pack; null for a daily puzzle.
+  levelNumber: number | null;
+  seed: number;
+  language: LanguageCode;
+  mode: GameMode;
+  wordsFound: number;
+  totalWords: number;
+  extraWords: number;
+  hintsUsed: number;
+  // Also set when a time-attack level ran out of time.
+  gaveUp: boolean;
+  timeMs: number;
+  score: number;
+}
+
+export interface PlayerStats {
+  guesses: Record<GuessOutcome, number>;
+  hintsUsed: number;
+  levelsCleared: number;
+  levelsGivenUp: number;
+  // Levels cleared in a row without giving up.
+  currentStreak: number;
+  bestStreak: number;
+  totalTimeMs: number;
+  longestWord: string;
+  // Newest first.
+  history: LevelRecord[];
+}
+
+export const createStats = (): PlayerStats => ({
+  guesses: Object.fromEntries(Object.values(GuessOutcome).map(outcome => [outcome, 0])) as Record<GuessOutcome, number>,
+  hintsUsed: 0,
+  levelsCleared: 0,
+  levelsGivenUp: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+  totalTimeMs: 0,
+  longestWord: '',
+  history: []
+});
+
+const isGuessCounts = (value: unknown): value is PlayerStats['guesses'] =>
+  isRecord(value) && Object.values(GuessOutcome).every(outcome => typeof value[outcome] === 'number');
+
+// Records from before game modes existed have no mode; they were played as Classic.
+const isStoredRecord = (value: unknown): value is Omit<LevelRecord, 'mode'> & { mode?: GameMode } =>
+  isRecord(value) &&
+  typeof value.finishedAt === 'string' &&
+  Object.values<unknown>(PuzzleSource).includes(value.source) &&
+  (value.levelNumber === null || typeof value.levelNumber === 'number') &&
+  isLanguageCode(value.language) &&
+  (value.mode === undefined || isGameMode(value.mode)) &&
+  ['seed', 'wordsFound', 'totalWords', 'extraWords', 'hintsUsed', 'timeMs', 'score']
+    .every(field => typeof value[field] === 'number') &&
+  typeof value.gaveUp === 'boolean';
+
+const isStats = (value: unknown): value is Omit<PlayerStats, 'history'> & { history: unknown[] } =>
+  isRecord(value) &&
+  isGuessCounts(value.guesses) &&
+  ['hintsUsed', 'levelsCleared', 'levelsGivenUp', 'currentStreak', 'bestStreak', 'totalTimeMs']
+    .every(field => typeof value[field] === 'number') &&
+  typeof value.longestWord === 'string' &&
+  Array.isArray(value.history);
+
+export const loadStats = (): PlayerStats => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return createStats();
+    const data: unknown = JSON.parse(raw);
+    if (isStats(data)) {
+      // A bad history entry costs only that entry, not the totals.
+      const history = data.history.filter(isStoredRecord).map(record => ({ ...record, mode: record.mode ?? GameMode.CLASSIC }));
+      if (history.length < data.history.length) console.warn("📊 Stats: Dropped corrupt level records");
+      return { ...data, history };
+    }
+    console.warn("📊 Stats: Stored stats are corrupt, starting fresh");
+  } catch (err) {
+    console.warn("📊 Stats: Could not read stored stats", err);
+  }
+  return createStats();
+};
+
+const updateStats = (change: (stats: PlayerStats) => PlayerStats): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(change(loadStats())));
+  } catch (err) {
+    console.warn("📊 Stats: Could not store stats", err);
+  }
+};
+
+export const recordGuess = (outcome: GuessOutcome, word: string): void => updateStats(stats => {
+  const isHit = outcome === GuessOutcome.VALID || outcome === GuessOutcome.EXTRA;
+  return {
+    ...stats,
+    guesses: { ...stats.guesses, [outcome]: stats.guesses[outcome] + 1 },
+    longestWord: isHit && word.length > stats.longestWord.length ? word : stats.longestWord
+  };
+});
+
+export const recordHint = (): void => updateStats(stats => ({ ...stats, hintsUsed: stats.hintsUsed + 1 }));
+
+export const recordLevel = (record: LevelRecord): void => updateStats(stats => {
+  const currentStreak = record.gaveUp ? 0 : stats.currentStreak + 1;
+  return {
+    ...stats,
+    levelsCleared: stats.levelsCleared + (record.gaveUp ? 0 : 1),
+    levelsGivenUp: stats.levelsGivenUp + (record.gaveUp ? 1 : 0),
+    currentStreak,
+    bestStreak: Math.max(stats.bestStreak, currentStreak),
+    totalTimeMs: stats.totalTimeMs + record.timeMs,
+    history: [record, ...stats.history].slice(0, HISTORY_LIMIT)
+  };
+});
+
+// Share of real submissions that were new words; too-short swipes are slips, not guesses.
+export const getAccuracy = (stats: PlayerStats): number | null => {
+  const { TOO_SHORT, ...counted } = stats.guesses;
+  const total = Object.values(counted).reduce((sum, n) => sum + n, 0);
+  if (total === 0) return null;
+  return (stats.guesses[GuessOutcome.VALID] + stats.guesses[GuessOutcome.EXTRA]) / total;
+};
+
+export const getAverageTimeMs = (stats: PlayerStats): number | null => {
+  const finished = stats.levelsCleared + stats.levelsGivenUp;
+  return finished === 0 ? null : stats.totalTimeMs / finished;
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,145 @@
+// Color themes. Components use semantic Tailwind colors (accent, ink, shade, canvas, danger,
+// highlight) that resolve to CSS variables; a theme is the set of values for those variables.
+
+export type ThemeId = 'dark' | 'light' | 'contrast';
+
+export const ACCENT_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+export type AccentShade = typeof ACCENT_SHADES[number];
+
+// Colors are space-separated RGB channels so Tailwind opacity modifiers (e.g. /40) work.
+export interface Theme {
+  id: ThemeId;
+  name: string;
+  // The UI is drawn light-on-dark in accent shades: 50 is text, 950 is the deepest surface.
+  accent: Record<AccentShade, string>;
+  // Strongest text and icons.
+  ink: string;
+  // Tint for hidden cells and wells.
+  shade: string;
+  // Solid page color, behind dialogs and in the browser chrome.
+  canvas: string;
+  // Errors, rejected words, marked cells and the running-out timer.
+  danger: string;
+  // Hinted wheel letters.
+  highlight: string;
+  // Radial page background, centre to edge.
+  backgroundFrom: string;
+  backgroundTo: string;
+  // Marks cell states with borders, ticks and stripes as well as color.
+  cellCues: boolean;
+}
+
+const TEAL: Record<AccentShade, string> = {
+  50: '240 253 250', 100: '204 251 241', 200: '153 246 228', 300: '94 234 212', 400: '45 212 191',
+  500: '20 184 166', 600: '13 148 136', 700: '15 118 110', 800: '17 94 89', 900: '19 78 74', 950: '4 47 46'
+};
+
+// Light is dark with the accent scale turned over: surfaces become pale and text deep.
+const invert = (scale: Record<AccentShade, string>): Record<AccentShade, string> =>
+  Object.fromEntries(ACCENT_SHADES.map((shade, i) => [shade, scale[ACCENT_SHADES[ACCENT_SHADES.length - 1 - i]]])) as Record<AccentShade, string>;
+
+export const THEMES: Record<ThemeId, Theme> = {
+  dark: {
+    id: 'dark',
+    name: 'Dark',
+    accent: TEAL,
+    ink: '255 255 255',
+    shade: '0 0 0',
+    canvas: '4 47 46',
+    danger: '248 113 113',
+    highlight: '252 211 77',
+    backgroundFrom: '15 118 110',
+    backgroundTo: '4 47 46',
+    cellCues: false
+  },
+  light: {
+    id: 'light',
+    name: 'Light',
+    accent: invert(TEAL),
+    ink: '4 47 46',
+    shade: '19 78 74',
+    canvas: '240 253 250',
+    danger: '185 28 28',
+    highlight: '180 83 9',
+    backgroundFrom: '255 255 255',
+    backgroundTo: '204 251 241',
+    cellCues: false
+  },
+  // Blue and amber on black stay apart for the common color-vision deficiencies.
+  contrast: {
+    id: 'contrast',
+    name: 'High Contrast',
+    accent: {
+      50: '255 255 255', 100: '240 249 255', 200: '224 242 254', 300: '253 224 71', 400: '250 204 21',
+      500: '14 165 233', 600: '3 105 161', 700: '7 89 133', 800: '12 74 110', 900: '8 47 73', 950: '0 0 0'
+    },
+    ink: '255 255 255',
+    shade: '0 0 0',
+    canvas: '0 0 0',
+    danger: '248 113 113',
+    highlight: '253 224 71',
+    backgroundFrom: '0 0 0',
+    backgroundTo: '0 0 0',
+    cellCues: true
+  }
+};
+
+// manifest.json cannot follow the player's choice, so its colors are this theme's canvas.
+export const DEFAULT_THEME: ThemeId = 'dark';
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+  typeof value === 'string' && Object.hasOwn(THEMES, value);
+
+// Holds the id and the resolved variables, so index.html can apply them before first paint.
+const THEME_KEY = 'wordflow.theme';
+
+interface AppliedTheme {
+  id: ThemeId;
+  vars: Record<string, string>;
+  themeColor: string;
+  cellCues: boolean;
+}
+
+export const loadThemePreference = (): ThemeId => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THEME_KEY) ?? 'null');
+    if (isThemeId(saved?.id)) return saved.id;
+  } catch (err) {
+    console.warn("🎨 Themes: Could not read theme preference", err);
+  }
+  return DEFAULT_THEME;
+};
+
+const toHex = (rgb: string) =>
+  '#' + rgb.split(' ').map(channel => Number(channel).toString(16).padStart(2, '0')).join('');
+
+const resolveTheme = (theme: Theme): AppliedTheme => ({
+  id: theme.id,
+  vars: {
+    ...Object.fromEntries(ACCENT_SHADES.map(shade => [`--accent-${shade}`, theme.accent[shade]])),
+    '--ink': theme.ink,
+    '--shade': theme.shade,
+    '--canvas': theme.canvas,
+    '--danger': theme.danger,
+    '--highlight': theme.highlight,
+    '--bg-from': theme.backgroundFrom,
+    '--bg-to': theme.backgroundTo
+  },
+  themeColor: toHex(theme.canvas),
+  cellCues: theme.cellCues
+});
+
+// Sets the variables on <html>, updates the browser chrome color and remembers the choice.
+export const applyTheme = (id: ThemeId): void => {
+  const applied = resolveTheme(THEMES[id]);
+  const root = document.documentElement;
+  Object.entries(applied.vars).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.dataset.theme = id;
+  root.toggleAttribute('data-cell-cues', applied.cellCues);
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', applied.themeColor);
+  try {
+    localStorage.setItem(THEME_KEY, JSON.stringify(applied));
+  } catch (err) {
+    console.warn("🎨 Themes: Could not save theme preference", err);
+  }
+};
@@ -0,0 +1,243 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WordEngine } from './wordEngine.ts';
+import { ENGLISH, LanguageConfig } from './languages.ts';
+import { MemoryDictionarySource, RemoteDictionarySource, parseWordList } from './dictionarySource.ts';
+import { getDifficultyProfile } from './difficulty.ts';
+import { wordCells } from './hints.ts';
+import { LevelData } from '../types.ts';
+import englishWords from '../data/words/en.txt?raw';
+
+// English with its usual curation, reading only the given words.
+const englishWith = (words: string[]): LanguageConfig => ({ ...ENGLISH, sources: [new MemoryDictionarySource(words)] });
+
+const sorted = (word: string) => word.split('').sort().join('');
+
+// The engine narrates every step; restoreMocks undoes this after each test.
+const silenceLogs = () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+};
+
+beforeEach(silenceLogs);
+
+describe('WordEngine dictionary filtering', () => {
+  it('keeps 4-7 letter alphabetic words with a vowel', async () => {
+    const engine = new WordEngine(englishWith(['cat', 'stone', 'planets', 'mountain', "can't", 'e-mail', 'brrr', 'myth', 'Crane ']));
+    await engine.init();
+
+    expect(engine.isValidWord('stone')).toBe(true);
+    expect(engine.isValidWord('planets')).toBe(true);
+    expect(engine.isValidWord('crane')).toBe(true);
+    expect(engine.isValidWord('myth')).toBe(true); // y counts as a vowel
+    expect(engine.isValidWord('cat')).toBe(false); // too short
+    expect(engine.isValidWord('mountain')).toBe(false); // too long
+    expect(engine.isValidWord("can't")).toBe(false);
+    expect(engine.isValidWord('e-mail')).toBe(false);
+    expect(engine.isValidWord('brrr')).toBe(false);
+  });
+
+  it('drops blacklisted words and adds the priority words', async () => {
+    const engine = new WordEngine(englishWith(['stone', ...ENGLISH.blacklist]));
+    await engine.init();
+
+    ENGLISH.blacklist.forEach(word => expect(engine.isValidWord(word)).toBe(false));
+    expect(engine.isValidWord('lore')).toBe(true);
+  });
+
+  it('matches words case-insensitively', async () => {
+    const engine = new WordEngine(englishWith(['stone']));
+    await engine.init();
+
+    expect(engine.isValidWord('STONE')).toBe(true);
+  });
+
+  it('reads the bundled list without going to the network', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const engine = new WordEngine();
+    await engine.init();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(engine.isValidWord('stone')).toBe(true);
+  });
+
+  it('falls back to the next source when the fetch fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    const remote = new RemoteDictionarySource('https://example.com/words.txt');
+    const engine = new WordEngine({ ...ENGLISH, sources: [remote, new MemoryDictionarySource(['stone'])] });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await engine.init();
+
+    expect(engine.isValidWord('stone')).toBe(true);
+  });
+
+  it('fails when no source produces words', async () => {
+    const engine = new WordEngine(englishWith(['cat', 'brrr']));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(engine.init()).rejects.toThrow('No dictionary source');
+  });
+});
+
+describe('WordEngine curation', () => {
+  it('drops words on the bundled deny lists', async () => {
+    const engine = new WordEngine(englishWith(['stone', 'london', 'fucking']));
+    await engine.init();
+
+    expect(engine.isValidWord('stone')).toBe(true);
+    expect(engine.isValidWord('london')).toBe(false);
+    expect(engine.isValidWord('fucking')).toBe(false);
+  });
+
+  it('layers the player lists over the dictionary without a reload', async () => {
+    const engine = new WordEngine(englishWith(['stone', 'notes', 'tones']));
+    await engine.init();
+
+    engine.setPlayerLists({ blocked: ['notes'], allowed: ['Onset', 'st', 'ton', 'cornerstone'] });
+    expect(engine.isValidWord('notes')).toBe(false);
+    expect(engine.isValidWord('onset')).toBe(true);
+    expect(engine.isValidWord('ton')).toBe(true);
+    expect(engine.isValidWord('cornerstone')).toBe(true);
+    expect(engine.isValidWord('st')).toBe(false); // too short to guess
+    expect(engine.findWords('stone')).toEqual(expect.arrayContaining(['onset', 'stone', 'tones']));
+    expect(engine.findWords('stone')).not.toContain('notes');
+    expect(engine.findWords('stone')).not.toContain('ton'); // too short for the grid
+
+    engine.setPlayerLists({ blocked: [], allowed: [] });
+    expect(engine.isValidWord('notes')).toBe(true);
+    expect(engine.isValidWord('onset')).toBe(false);
+  });
+
+  it('clears the player lists when the language changes', async () => {
+    const engine = new WordEngine();
+    engine.setPlayerLists({ blocked: ['stone'], allowed: [] });
+    engine.setLanguage(englishWith(['stone']));
+    await engine.init();
+
+    expect(engine.isValidWord('stone')).toBe(true);
+  });
+});
+
+describe('WordEngine anagram lookup', () => {
+  const engine = new WordEngine(englishWith(['stone', 'notes', 'tone', 'nest', 'toot', 'stones', 'tones']));
+
+  it('isSubset respects letter counts', () => {
+    expect(engine['isSubset'](sorted('note'), sorted('stone'))).toBe(true);
+    expect(engine['isSubset'](sorted('stone'), sorted('stone'))).toBe(true);
+    expect(engine['isSubset'](sorted('toot'), sorted('stone'))).toBe(false);
+    expect(engine['isSubset'](sorted('tone'), sorted('stack'))).toBe(false);
+  });
+
+  it('findWords returns only words spelled from the letters, longest first', async () => {
+    await engine.init();
+
+    const words = engine.findWords('stone');
+    expect(new Set(words)).toEqual(new Set(['stone', 'notes', 'tones', 'tone', 'nest']));
+    expect(words.map(w => w.length)).toEqual([...words.map(w => w.length)].sort((a, b) => b - a));
+  });
+});
+
+describe('WordEngine.generateLevel', () => {
+  const engine = new WordEngine(englishWith(parseWordList(englishWords)));
+  const levels: LevelData[] = [];
+
+  beforeAll(async () => {
+    silenceLogs();
+    await engine.init();
+    for (const levelNumber of [1, 6, 15, 25, 40]) {
+      for (let seed = 1; seed <= 4; seed++) {
+        levels.push(engine.generateLevel(getDifficultyProfile(levelNumber), levelNumber * 1000 + seed));
+      }
+    }
+  });
+
+  const cellsOf = (level: LevelData) => {
+    const cells = new Map<string, string>();
+    level.placedWords.forEach(pw => wordCells(pw).forEach((key, i) => cells.set(key, pw.word[i])));
+    return cells;
+  };
+
+  it('only places words spelled from the root letters', () => {
+    levels.forEach(level => level.placedWords.forEach(pw => {
+      expect(engine['isSubset'](sorted(pw.word), level.rootLetters), `${pw.word} from ${level.rootLetters}`).toBe(true);
+    }));
+  });
+
+  it('never puts two letters in one cell', () => {
+    levels.forEach(level => {
+      const seen = new Map<string, string>();
+      level.placedWords.forEach(pw => wordCells(pw).forEach((key, i) => {
+        if (seen.has(key)) expect(seen.get(key), `cell ${key} in level ${level.seed}`).toBe(pw.word[i]);
+        seen.set(key, pw.word[i]);
+      }));
+    });
+  });
+
+  it('only lets letters touch inside a word', () => {
+    levels.forEach(level => {
+      const cells = cellsOf(level);
+      const covers = (direction: 'horizontal' | 'vertical', a: string, b: string) =>
+        level.placedWords.some(pw => pw.direction === direction && wordCells(pw).includes(a) && wordCells(pw).includes(b));
+
+      cells.forEach((_, key) => {
+        const [x, y] = key.split(',').map(Number);
+        const right = `${x + 1},${y}`;
+        const below = `${x},${y + 1}`;
+        if (cells.has(right)) expect(covers('horizontal', key, right), `${key}-${right} in level ${level.seed}`).toBe(true);
+        if (cells.has(below)) expect(covers('vertical', key, below), `${key}-${below} in level ${level.seed}`).toBe(true);
+      });
+    });
+  });
+
+  it('normalizes coordinates and sizes the grid to the words', () => {
+    levels.forEach(level => {
+      const points = [...cellsOf(level).keys()].map(key => key.split(',').map(Number));
+      expect(Math.min(...points.map(([x]) => x))).toBe(0);
+      expect(Math.min(...points.map(([, y]) => y))).toBe(0);
+      expect(Math.max(...points.map(([x]) => x)) + 1).toBe(level.gridWidth);
+      expect(Math.max(...points.map(([, y]) => y)) + 1).toBe(level.gridHeight);
+    });
+  });
+
+  it('lists every placed word as valid and shuffles the root into the wheel', () => {
+    levels.forEach(level => {
+      expect(level.validWords).toEqual(level.placedWords.map(pw => pw.word));
+      expect(sorted(level.displayLetters.join('').toLowerCase())).toBe(level.rootLetters);
+    });
+  });
+
+  it('leaves blocked words out unless player lists are ignored', () => {
+    const profile = getDifficultyProfile(12);
+    const original = engine.generateLevel(profile, 777);
+    engine.setPlayerLists({ blocked: original.validWords, allowed: [] });
+    try {
+      engine.generateLevel(profile, 777).validWords.forEach(word => expect(original.validWords).not.toContain(word));
+      expect(engine.generateLevel(profile, 777, { playerLists: false }).placedWords).toEqual(original.placedWords);
+    } finally {
+      engine.setPlayerLists({ blocked: [], allowed: [] });
+    }
+  });
+
+  it('is deterministic for a seed', () => {
+    const profile = getDifficultyProfile(12);
+    const a = engine.generateLevel(profile, 4242);
+    const b = engine.generateLevel(profile, 4242);
+    expect(b.placedWords).toEqual(a.placedWords);
+    expect(b.displayLetters).toEqual(a.displayLetters);
+  });
+
+  it('cuts an unseeded search off at the time budget, but never a seeded one', () => {
+    const profile = getDifficultyProfile(12);
+    engine.generateLevel(profile, undefined, { timeBudgetMs: -1 });
+    expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/^🏗️ WordEngine: Best of 1 layouts/));
+
+    const seeded = engine.generateLevel(profile, 4242, { timeBudgetMs: -1 });
+    expect(seeded.placedWords).toEqual(engine.generateLevel(profile, 4242).placedWords);
+  });
+
+  it('builds at least one layout per root', () => {
+    const level = engine.generateLevel(getDifficultyProfile(12), 4242, { attemptsPerRoot: 0 });
+    expect(level.placedWords.length).toBeGreaterThan(0);
+  });
+});
@@ -1,75 +1,186 @@
 
 import { LevelData, PlacedWord } from '../types.ts';
+import { Rng, createRng, randomSeed, shuffle } from './random.ts';
+import { DifficultyProfile } from './difficulty.ts';
+import { ENGLISH, LanguageConfig, toDisplayCase, toWordCase } from './languages.ts';
+import { addToGrid, countCrossings, createPlacementGrid } from './placement.ts';
+import { PlayerWordLists, allowedWordProblem } from './curation.ts';
+
+type Direction = PlacedWord['direction'];
+
+const MAX_ROOT_ROLLS = 5;
+
+export interface LayoutOptions {
+  // Candidate layouts built per root word before the best one is kept (at least one).
+  attemptsPerRoot: number;
+  // Wall-clock cap for the whole layout search of an unseeded level. Seeded levels ignore it and
+  // run every attempt, so a seed gives the same level on any device however fast it is.
+  timeBudgetMs: number;
+  // Preferred grid width / height; the grid area is a portrait viewport.
+  targetAspect: number;
+  // Honor the player's word lists when choosing words. Puzzles everyone must share (daily) pass false.
+  playerLists: boolean;
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  attemptsPerRoot: 8,
+  timeBudgetMs: 60,
+  targetAspect: 0.8,
+  playerLists: true
+};
+
+type Layout = { placed: PlacedWord[]; crossings: number };
+type ScoredLayout = Layout & { root: string; score: number };
+
+const getBounds = (placed: PlacedWord[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  placed.forEach(p => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    const endX = p.direction === 'horizontal' ? p.x + p.word.length - 1 : p.x;
+    const endY = p.direction === 'vertical' ? p.y + p.word.length - 1 : p.y;
+    maxX = Math.max(maxX, endX);
+    maxY = Math.max(maxY, endY);
+  });
+  return { minX, minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
 
 export class WordEngine {
   private clusters: Map<string, string[]> = new Map();
   private dictionary: string[] = [];
   private dictionarySet: Set<string> = new Set();
+  // Position in the frequency-ordered source list; priority words count as most common.
+  private wordRank: Map<string, number> = new Map();
+
+  private layoutOptions: LayoutOptions = DEFAULT_LAYOUT_OPTIONS;
+
+  private priorityWords: Set<string> = new Set();
+  private blacklist: Set<string> = new Set();
+  // The player's lists, layered over the dictionary rather than baked in, so they can change at any time.
+  private blockedWords: Set<string> = new Set();
+  private allowedWords: Set<string> = new Set();
+  private alphabetPattern: RegExp = /^$/;
+  private vowelPattern: RegExp = /^$/;
+
+  constructor(private language: LanguageConfig = ENGLISH) {
+    this.applyLanguageRules();
+  }
 
-  private readonly PRIORITY_WORDS = [
-    'nigh', 'fain', 'yore', 'lore', 'bard', 'sage', 'vale', 'moor', 'vial', 
-    'helm', 'rune', 'mead', 'thou', 'thee', 'quoth', 'wrought', 'blithe', 
-    'stark', 'grim', 'vane', 'reed'
-  ];
+  setLayoutOptions(options: Partial<LayoutOptions>): void {
+    this.layoutOptions = { ...this.layoutOptions, ...options };
+  }
+
+  // Switches alphabet, word lists and sources; takes effect on the next init().
+  // Player lists belong to a language, so they are dropped until set again.
+  setLanguage(language: LanguageConfig): void {
+    this.language = language;
+    this.applyLanguageRules();
+    this.setPlayerLists({ blocked: [], allowed: [] });
+  }
 
-  private readonly BLACKLIST = new Set([
-    'fran', 'brad', 'greg', 'ebay', 'sony', 'dell', 'nike', 'levi', 'visa', 'ford', 
-    'fiat', 'asda', 'audi', 'hugo', 'marc', 'jean', 'paul', 'ivan', 'karl', 'erik',
-    'http', 'html', 'www', 'com', 'org', 'blog', 'site', 'user', 'java', 'linux', 
-    'unix', 'xml', 'json', 'wifi', 'apps', 'tech', 'data', 'file', 'link', 'code',
-    'ipad', 'ipod', 'xbox', 'psn', 'bios', 'ping', 'pong', 'null', 'void',
-    'july', 'june', 'sept', 'octo', 'nov', 'dec', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'
-  ]);
+  // Takes effect immediately, before or after init(). Allowed words count as guesses at any length
+  // the game takes; only those that also fit the grid are placed in levels.
+  setPlayerLists(lists: PlayerWordLists): void {
+    this.blockedWords = new Set(lists.blocked.map(w => this.normalize(w)));
+    this.allowedWords = new Set(lists.allowed.map(w => this.normalize(w))
+      .filter(w => allowedWordProblem(w, this.language) === null && !this.blockedWords.has(w)));
+    console.log(`📚 WordEngine: Player word lists applied (${this.blockedWords.size} blocked, ${this.allowedWords.size} allowed).`);
+  }
 
-  constructor() {}
+  private applyLanguageRules(): void {
+    const { alphabet, vowels, priorityWords, blacklist } = this.language;
+    this.priorityWords = new Set(priorityWords);
+    this.blacklist = new Set(blacklist);
+    this.alphabetPattern = new RegExp(`^[${alphabet}]+$`, 'u');
+    this.vowelPattern = new RegExp(`[${vowels}]`, 'u');
+  }
+
+  // NFC, locale lower case, then the language's letter folding.
+  private normalize(word: string): string {
+    const { locale, letterFolding } = this.language;
+    return Array.from(toWordCase(word.trim().normalize('NFC'), locale), ch => letterFolding[ch] ?? ch).join('');
+  }
 
   async init(): Promise<void> {
-    console.info("📚 WordEngine: Starting initialization...");
-    try {
-      console.log("📚 WordEngine: Fetching dictionary from remote source...");
-      const response = await fetch('https://raw.githubusercontent.com/first20hours/google-10000-english/master/20k.txt');
-      if (!response.ok) throw new Error(`Dictionary fetch failed with status ${response.status}`);
-      
-      const text = await response.text();
-      console.log(`📚 WordEngine: Received dictionary data (${Math.round(text.length / 1024)} KB)`);
-      
-      const fetchedWords = text.split('\n')
-        .map(w => w.trim().toLowerCase())
-        .filter(w => {
-          const isCorrectLength = w.length >= 4 && w.length <= 7;
-          const isAlpha = /^[a-z]+$/.test(w);
-          const hasVowel = /[aeiouy]/.test(w);
-          return isCorrectLength && isAlpha && hasVowel && !this.BLACKLIST.has(w);
-        });
-
-      const combined = [...new Set([...fetchedWords, ...this.PRIORITY_WORDS])];
-      this.dictionary = combined;
-      this.dictionarySet = new Set(this.dictionary);
-      console.info(`📚 WordEngine: Dictionary processed. ${this.dictionary.length} valid words found.`);
-
-      this.clusters.clear();
-      this.dictionary.forEach(word => {
-        const sorted = word.split('').sort().join('');
-        if (!this.clusters.has(sorted)) this.clusters.set(sorted, []);
-        this.clusters.get(sorted)!.push(word);
-      });
-      console.info(`📚 WordEngine: Word clusters built. ${this.clusters.size} unique character combinations.`);
-
-    } catch (error) {
-      console.error("❌ WordEngine: Init error, using fallback dictionary", error);
-      const fallback = ["rust", "trust", "star", "stair", "trail", "train", "react", "trace", "cater", "crate", "great", "gear", "read", "dear", "care", "race", "word", "flow", "wolf", "blue", "glow", "slow", "fast", "lake", "peak", "beam", "team", "nigh", "lore", "bard", "sage"];
-      this.dictionary = fallback;
-      this.dictionarySet = new Set(fallback);
-      fallback.forEach(word => {
-        const sorted = word.split('').sort().join('');
-        if (!this.clusters.has(sorted)) this.clusters.set(sorted, []);
-        this.clusters.get(sorted)!.push(word);
-      });
+    console.info(`📚 WordEngine: Starting initialization (${this.language.code})...`);
+    this.blacklist = new Set([...this.language.blacklist, ...await this.loadDenyLists()].map(w => this.normalize(w)));
+    for (const source of this.language.sources) {
+      try {
+        console.log(`📚 WordEngine: Loading dictionary from ${source.name}...`);
+        const words = this.processWords(await source.load());
+        if (words.length === 0) throw new Error("Source produced no usable words");
+        this.setDictionary(words);
+        console.info(`📚 WordEngine: Dictionary processed from ${source.name}. ${this.dictionary.length} valid words found.`);
+        console.info(`📚 WordEngine: Word clusters built. ${this.clusters.size} unique character combinations.`);
+        return;
+      } catch (error) {
+        console.error(`❌ WordEngine: Source ${source.name} failed, trying next`, error);
+      }
     }
+    throw new Error("WordEngine: No dictionary source could be loaded");
+  }
+
+  // A missing deny list only lets more words through, so it is not worth failing init over.
+  private async loadDenyLists(): Promise<string[]> {
+    const words: string[] = [];
+    for (const list of this.language.denyLists) {
+      try {
+        words.push(...await list.load());
+      } catch (error) {
+        console.warn(`📚 WordEngine: Deny list ${list.name} unavailable`, error);
+      }
+    }
+    return words;
+  }
+
+  private isPlayable(word: string): boolean {
+    const isCorrectLength = word.length >= 4 && word.length <= 7;
+    return isCorrectLength && this.alphabetPattern.test(word) && this.vowelPattern.test(word);
+  }
+
+  private processWords(rawWords: string[]): string[] {
+    const filtered = rawWords
+      .map(w => this.normalize(w))
+      .filter(w => this.isPlayable(w) && !this.blacklist.has(w));
+    // An empty source must not pass as a dictionary made only of priority words.
+    if (filtered.length === 0) return [];
+    return [...new Set([...filtered, ...this.priorityWords])];
+  }
+
+  private setDictionary(words: string[]): void {
+    this.dictionary = words;
+    this.dictionarySet = new Set(words);
+    this.wordRank = new Map(words.map((w, i) => [w, this.priorityWords.has(w) ? 0 : i]));
+    this.clusters.clear();
+    words.forEach(word => {
+      const sorted = word.split('').sort().join('');
+      if (!this.clusters.has(sorted)) this.clusters.set(sorted, []);
+      this.clusters.get(sorted)!.push(word);
+    });
   }
 
   isValidWord(word: string): boolean {
-    return this.dictionarySet.has(word.toLowerCase());
+    const normalized = this.normalize(word);
+    if (this.blockedWords.has(normalized)) return false;
+    return this.dictionarySet.has(normalized) || this.allowedWords.has(normalized);
+  }
+
+  // Every dictionary word the letters can spell, longest first.
+  findWords(letters: string): string[] {
+    const sorted = this.normalize(letters).split('').sort().join('');
+    return this.wordsWithin(sorted, true)
+      .sort((a, b) => b.length - a.length || a.localeCompare(b, this.language.locale));
+  }
+
+  private wordsWithin(sortedLetters: string, withPlayerLists: boolean): string[] {
+    const words: string[] = [];
+    for (const [cluster, clusterWords] of this.clusters.entries()) {
+      if (this.isSubset(cluster, sortedLetters)) words.push(...clusterWords);
+    }
+    if (!withPlayerLists) return words;
+    const allowed = [...this.allowedWords].filter(w => this.isPlayable(w) &&
+      !this.dictionarySet.has(w) && this.isSubset(w.split('').sort().join(''), sortedLetters));
+    return [...words, ...allowed].filter(w => !this.blockedWords.has(w));
   }
 
   private isSubset(smallSorted: string, bigSorted: string): boolean {
@@ -82,153 +193,174 @@ export class WordEngine {
     return true;
   }
 
-  generateLevel(targetLength: number = 6): LevelData {
-    console.log(`🏗️ WordEngine: Generating level for length ${targetLength}...`);
-    let rootWords = this.dictionary.filter(w => w.length === targetLength);
+  private rankOf(word: string): number {
+    return this.wordRank.get(word) ?? Infinity;
+  }
+
+  generateLevel(profile: DifficultyProfile, requestedSeed?: number, options: Partial<LayoutOptions> = {}): LevelData {
+    const seed = requestedSeed ?? randomSeed();
+    let targetLength = profile.rootLength;
+    console.log(`🏗️ WordEngine: Generating level for length ${targetLength} (seed ${seed})...`);
+    const rng = createRng(seed);
+    const isCommonEnough = (w: string) => this.rankOf(w) <= profile.maxWordRank;
+
+    const { attemptsPerRoot, timeBudgetMs, targetAspect, playerLists } = { ...this.layoutOptions, ...options };
+    const attempts = Math.max(1, Math.floor(attemptsPerRoot));
+    const isRootCandidate = (w: string, length: number) =>
+      w.length === length && !(playerLists && this.blockedWords.has(w));
+
+    let rootWords = this.dictionary.filter(w => isRootCandidate(w, targetLength));
     if (rootWords.length === 0) {
       console.warn(`🏗️ WordEngine: No words of length ${targetLength} found. Falling back to 5.`);
       targetLength = 5;
-      rootWords = this.dictionary.filter(w => w.length === targetLength);
+      rootWords = this.dictionary.filter(w => isRootCandidate(w, targetLength));
     }
-    
-    const randomRoot = rootWords[Math.floor(Math.random() * rootWords.length)] || "water";
-    const rootSorted = randomRoot.split('').sort().join('');
-    console.log(`🏗️ WordEngine: Root word selected: "${randomRoot}"`);
-
-    let pool: string[] = [];
-    for (const [sortedLetters, words] of this.clusters.entries()) {
-      if (this.isSubset(sortedLetters, rootSorted)) {
-        pool.push(...words);
+    if (rootWords.some(isCommonEnough)) rootWords = rootWords.filter(isCommonEnough);
+
+    let best: ScoredLayout | null = null;
+    let built = 0;
+    const deadline = requestedSeed === undefined ? performance.now() + timeBudgetMs : Infinity;
+
+    // Several candidate layouts per root; re-roll the root if none meets the profile's minimums.
+    rolls:
+    for (let roll = 0; roll < MAX_ROOT_ROLLS; roll++) {
+      const randomRoot = rootWords[Math.floor(rng() * rootWords.length)] || "water";
+      console.log(`🏗️ WordEngine: Root word selected: "${randomRoot}"`);
+      const pool = this.buildPool(randomRoot, profile, playerLists);
+
+      for (let attempt = 0; attempt < attempts; attempt++) {
+        const firstDirection: Direction = attempt % 2 === 0 ? 'vertical' : 'horizontal';
+        const layout = this.buildLayout(randomRoot, pool, profile, rng, firstDirection);
+        const score = this.scoreLayout(layout, profile, targetAspect);
+        built++;
+        if (!best || score > best.score) best = { ...layout, root: randomRoot, score };
+        if (performance.now() > deadline) {
+          console.warn(`🏗️ WordEngine: Layout time budget of ${timeBudgetMs}ms reached after ${built} candidates.`);
+          break rolls;
+        }
       }
+      if (best && this.meetsMinimums(best, profile)) break;
     }
+
+    if (!best) throw new Error("WordEngine: No layout was built");
+    const { root, placed, crossings, score } = best;
+    console.log(`🏗️ WordEngine: Best of ${built} layouts has ${placed.length} words, ${crossings} crossings (score ${score.toFixed(1)}).`);
+
+    const { minX, minY, width, height } = getBounds(placed);
+    const finalPlaced = placed.map(p => ({
+      ...p,
+      x: p.x - minX,
+      y: p.y - minY
+    }));
+
+    const displayLetters = shuffle(Array.from(root, ch => toDisplayCase(ch, this.language.locale)), rng);
+
+    return {
+      seed,
+      language: this.language.code,
+      rootLetters: root.split('').sort().join(''),
+      displayLetters,
+      validWords: finalPlaced.map(p => p.word),
+      placedWords: finalPlaced,
+      gridWidth: width,
+      gridHeight: height,
+      foundWords: new Set<string>(),
+      extraWords: new Set<string>(),
+      revealedWords: new Set<string>()
+    };
+  }
+
+  private meetsMinimums(layout: Layout, profile: DifficultyProfile): boolean {
+    return layout.placed.length >= profile.minPlacedWords && layout.crossings >= profile.minCrossings;
+  }
+
+  // Higher is better: many words and crossings, densely packed, close to the target aspect ratio.
+  private scoreLayout(layout: Layout, profile: DifficultyProfile, targetAspect: number): number {
+    const { width, height } = getBounds(layout.placed);
+    const cells = new Set(layout.placed.flatMap(p =>
+      Array.from(p.word, (_, i) => p.direction === 'horizontal' ? `${p.x + i},${p.y}` : `${p.x},${p.y + i}`)
+    )).size;
+    const fill = cells / (width * height);
+    const aspectPenalty = Math.abs(Math.log((width / height) / targetAspect));
+
+    return layout.placed.length * 10
+      + layout.crossings * 6
+      + fill * 40
+      - aspectPenalty * 15
+      - (this.meetsMinimums(layout, profile) ? 0 : 100);
+  }
+
+  private buildPool(root: string, profile: DifficultyProfile, withPlayerLists: boolean): string[] {
+    let pool = this.wordsWithin(root.split('').sort().join(''), withPlayerLists);
+    const eligible = pool.filter(w => w === root ||
+      (w.length >= profile.minWordLength && this.rankOf(w) <= profile.maxWordRank));
+    // Rare roots can leave too little to build with; relax the gates rather than fail.
+    if (eligible.length >= profile.minPlacedWords) pool = eligible;
     console.log(`🏗️ WordEngine: Found ${pool.length} candidate words for this root.`);
+    return pool;
+  }
 
+  private buildLayout(root: string, pool: string[], profile: DifficultyProfile, rng: Rng, firstDirection: Direction): Layout {
     const weightedPool = pool.map(word => ({
       word,
-      score: Math.pow(Math.random(), 1 / word.length)
+      score: Math.pow(rng(), 1 / word.length)
     })).sort((a, b) => b.score - a.score).map(p => p.word);
 
     const placed: PlacedWord[] = [];
-    const grid: Map<string, string> = new Map();
-    const cellToWords: Map<string, string[]> = new Map();
-
-    const canPlace = (word: string, x: number, y: number, dir: 'horizontal' | 'vertical', intersectionX: number, intersectionY: number): boolean => {
-      for (let i = 0; i < word.length; i++) {
-        const curX = dir === 'horizontal' ? x + i : x;
-        const curY = dir === 'horizontal' ? y : y + i;
-        const char = word[i];
-        const key = `${curX},${curY}`;
-
-        const existing = grid.get(key);
-        if (existing) {
-          if (existing !== char) return false; 
-          const wordsAtCell = cellToWords.get(key) || [];
-          if (wordsAtCell.length >= 2) return false; 
-          if (curX !== intersectionX || curY !== intersectionY) return false;
-        }
+    const grid = createPlacementGrid();
+    let crossings = 0;
+    let minX = 0, minY = 0, maxX = 0, maxY = 0;
 
-        const isIntersectionCell = (curX === intersectionX && curY === intersectionY);
-        const adjacents = [
-          { x: curX - 1, y: curY, label: 'left' },
-          { x: curX + 1, y: curY, label: 'right' },
-          { x: curX, y: curY - 1, label: 'up' },
-          { x: curX, y: curY + 1, label: 'down' }
-        ];
-
-        for (const adj of adjacents) {
-          const adjKey = `${adj.x},${adj.y}`;
-          if (grid.has(adjKey)) {
-            const isWordFlow = (dir === 'horizontal' && (adj.label === 'left' || adj.label === 'right')) ||
-                               (dir === 'vertical' && (adj.label === 'up' || adj.label === 'down'));
-            if (isWordFlow) {
-              if (i === 0 && adj.label === 'left') return false;
-              if (i === word.length - 1 && adj.label === 'right') return false;
-              if (dir === 'vertical') {
-                if (i === 0 && adj.label === 'up') return false;
-                if (i === word.length - 1 && adj.label === 'down') return false;
-              }
-            } else {
-              if (!isIntersectionCell) return false;
-            }
-          }
-        }
-      }
-      return true;
+    // Bounding-box area after placing a word, used to prefer compact fits.
+    const areaWith = (word: string, x: number, y: number, dir: Direction): number => {
+      const endX = dir === 'horizontal' ? x + word.length - 1 : x;
+      const endY = dir === 'vertical' ? y + word.length - 1 : y;
+      return (Math.max(maxX, endX) - Math.min(minX, x) + 1) * (Math.max(maxY, endY) - Math.min(minY, y) + 1);
     };
 
-    const place = (word: string, x: number, y: number, dir: 'horizontal' | 'vertical') => {
-      placed.push({ word, x, y, direction: dir });
-      for (let i = 0; i < word.length; i++) {
-        const curX = dir === 'horizontal' ? x + i : x;
-        const curY = dir === 'horizontal' ? y : y + i;
-        const key = `${curX},${curY}`;
-        grid.set(key, word[i]);
-        if (!cellToWords.has(key)) cellToWords.set(key, []);
-        cellToWords.get(key)!.push(word);
-      }
+    const place = (word: string, x: number, y: number, dir: Direction) => {
+      const pw: PlacedWord = { word, x, y, direction: dir };
+      placed.push(pw);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, dir === 'horizontal' ? x + word.length - 1 : x);
+      maxY = Math.max(maxY, dir === 'vertical' ? y + word.length - 1 : y);
+      crossings += addToGrid(grid, pw);
     };
 
-    const firstWord = weightedPool.find(w => w.length === randomRoot.length) || weightedPool[0];
-    place(firstWord, 0, 0, 'horizontal');
+    const firstWord = weightedPool.find(w => w.length === root.length) || weightedPool[0];
+    place(firstWord, 0, 0, firstDirection);
 
     let attempts = 0;
-    while (placed.length < 12 && attempts < weightedPool.length * 10) {
+    while (placed.length < profile.maxPlacedWords && attempts < weightedPool.length * 10) {
       const candidate = weightedPool[attempts % weightedPool.length];
       attempts++;
       if (placed.some(p => p.word === candidate)) continue;
 
-      let bestFit: { x: number, y: number, dir: 'horizontal' | 'vertical', ix: number, iy: number } | null = null;
+      // Most compact fit; while the layout is short of crossings, crossing more words wins first.
+      const wantDense = crossings < profile.minCrossings;
+      let bestFit: { x: number, y: number, dir: Direction, crossed: number, area: number } | null = null;
       for (const p of placed) {
         for (let i = 0; i < p.word.length; i++) {
           for (let j = 0; j < candidate.length; j++) {
             if (p.word[i] === candidate[j]) {
-              const dir: 'horizontal' | 'vertical' = p.direction === 'horizontal' ? 'vertical' : 'horizontal';
+              const dir: Direction = p.direction === 'horizontal' ? 'vertical' : 'horizontal';
               const x = p.direction === 'horizontal' ? p.x + i : p.x - j;
               const y = p.direction === 'horizontal' ? p.y - j : p.y + i;
-              const ix = p.direction === 'horizontal' ? p.x + i : p.x;
-              const iy = p.direction === 'horizontal' ? p.y : p.y + i;
-              if (canPlace(candidate, x, y, dir, ix, iy)) {
-                bestFit = { x, y, dir, ix, iy };
-                break;
-              }
+              const crossed = countCrossings(grid, candidate, x, y, dir);
+              if (crossed <= 0) continue;
+              const area = areaWith(candidate, x, y, dir);
+              const isBetter = !bestFit ||
+                (wantDense && crossed !== bestFit.crossed ? crossed > bestFit.crossed : area < bestFit.area);
+              if (isBetter) bestFit = { x, y, dir, crossed, area };
             }
           }
-          if (bestFit) break;
         }
-        if (bestFit) break;
       }
       if (bestFit) place(candidate, bestFit.x, bestFit.y, bestFit.dir);
     }
 
-    console.log(`🏗️ WordEngine: Crossword layout built with ${placed.length} words.`);
-
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    placed.forEach(p => {
-      minX = Math.min(minX, p.x);
-      minY = Math.min(minY, p.y);
-      const endX = p.direction === 'horizontal' ? p.x + p.word.length - 1 : p.x;
-      const endY = p.direction === 'vertical' ? p.y + p.word.length - 1 : p.y;
-      maxX = Math.max(maxX, endX);
-      maxY = Math.max(maxY, endY);
-    });
-
-    const finalPlaced = placed.map(p => ({
-      ...p,
-      x: p.x - minX,
-      y: p.y - minY
-    }));
-
-    const displayLetters = randomRoot.toUpperCase().split('').sort(() => Math.random() - 0.5);
-
-    return {
-      rootLetters: rootSorted,
-      displayLetters,
-      validWords: finalPlaced.map(p => p.word),
-      placedWords: finalPlaced,
-      gridWidth: maxX - minX + 1,
-      gridHeight: maxY - minY + 1,
-      foundWords: new Set<string>()
-    };
+    return { placed, crossings };
   }
 }
 
@@ -0,0 +1,100 @@
+import { LevelData, PuzzleSource } from '../types.ts';
+import { LanguageCode, isLanguageCode } from './languages.ts';
+import { LevelFile, isLevelFile, toLevelFile } from './levelPack.ts';
+import { isRecord } from './guards.ts';
+
+// Words the player flagged, queued on the device until exported for dictionary review.
+
+const STORAGE_KEY = 'wordflow.wordReports.v1';
+const EXPORT_FORMAT = 'wordflow-word-reports';
+
+// Oldest reports are dropped past this, so an unexported queue cannot grow without bound.
+const QUEUE_LIMIT = 200;
+
+// grid: a placed word that should not be there. rejected: a guess that should have counted.
+export type WordReportKind = 'grid' | 'rejected';
+
+export interface WordReport {
+  kind: WordReportKind;
+  word: string;
+  language: LanguageCode;
+  // ISO timestamp.
+  reportedAt: string;
+  source: PuzzleSource;
+  // Endless level number or position in a pack; null for a daily puzzle.
+  levelNumber: number | null;
+  // The whole level, so a report can be replayed as a one-level pack.
+  level: LevelFile;
+}
+
+const isWordReport = (value: unknown): value is WordReport =>
+  isRecord(value) &&
+  (value.kind === 'grid' || value.kind === 'rejected') &&
+  typeof value.word === 'string' &&
+  isLanguageCode(value.language) &&
+  typeof value.reportedAt === 'string' &&
+  Object.values<unknown>(PuzzleSource).includes(value.source) &&
+  (value.levelNumber === null || typeof value.levelNumber === 'number') &&
+  isLevelFile(value.level);
+
+export const loadWordReports = (): WordReport[] => {
+  let data: unknown;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    data = JSON.parse(raw);
+  } catch (err) {
+    console.warn("🚩 WordReports: Could not read reports", err);
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    console.warn("🚩 WordReports: Stored reports are corrupt, starting fresh");
+    return [];
+  }
+  const reports = data.filter(isWordReport);
+  if (reports.length < data.length) console.warn("🚩 WordReports: Dropped corrupt reports");
+  return reports;
+};
+
+const saveWordReports = (reports: WordReport[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(reports));
+  } catch (err) {
+    console.warn("🚩 WordReports: Could not save reports", err);
+  }
+};
+
+export const createWordReport = (
+  kind: WordReportKind, word: string, level: LevelData, source: PuzzleSource, levelNumber: number | null
+): WordReport => ({
+  kind,
+  word,
+  language: level.language,
+  reportedAt: new Date().toISOString(),
+  source,
+  levelNumber,
+  level: toLevelFile(level)
+});
+
+// Reporting the same word from the same level again replaces the earlier report. Returns the queue.
+export const queueWordReport = (report: WordReport): WordReport[] => {
+  const isSame = (other: WordReport) => other.kind === report.kind && other.word === report.word &&
+    other.language === report.language && other.level.seed === report.level.seed;
+  const reports = [report, ...loadWordReports().filter(other => !isSame(other))].slice(0, QUEUE_LIMIT);
+  saveWordReports(reports);
+  console.log(`🚩 WordReports: Queued "${report.word}" (${report.kind}), ${reports.length} waiting`);
+  return reports;
+};
+
+export const clearWordReports = (): void => saveWordReports([]);
+
+// Saves the queue as a .json file through the browser's download flow.
+export const downloadWordReports = (reports: WordReport[]): void => {
+  const file = { format: EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), reports };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `wordflow-word-reports-${file.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
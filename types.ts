@@ -1,4 +1,6 @@
 
+import { LanguageCode } from './services/languages.ts';
+
 export interface PlacedWord {
   word: string;
   x: number;
@@ -7,6 +9,8 @@ export interface PlacedWord {
 }
 
 export interface LevelData {
+  seed: number;
+  language: LanguageCode;
   rootLetters: string;
   displayLetters: string[];
   validWords: string[];
@@ -14,10 +18,69 @@ export interface LevelData {
   gridWidth: number;
   gridHeight: number;
   foundWords: Set<string>;
+  // Dictionary words found that are not part of the crossword.
+  extraWords: Set<string>;
+  // Placed words shown by giving up or fully revealed by hints, rather than found by the player.
+  revealedWords: Set<string>;
+}
+
+export enum HintType {
+  LETTER = 'LETTER',
+  WORD = 'WORD',
+  FIRST_LETTERS = 'FIRST_LETTERS',
+  STARTING_LETTERS = 'STARTING_LETTERS'
+}
+
+export interface HintState {
+  // Grid cells revealed by hints, as "x,y" keys. Cells are shared by crossing words.
+  revealedCells: Set<string>;
+  // Highlight wheel letters that start an unfound word.
+  showStartingLetters: boolean;
+  // Hints taken on this level, per type.
+  usage: Record<HintType, number>;
+}
+
+// How handleWordComplete classified a submitted word.
+export enum GuessOutcome {
+  TOO_SHORT = 'TOO_SHORT',
+  ALREADY_FOUND = 'ALREADY_FOUND',
+  VALID = 'VALID',
+  EXTRA = 'EXTRA',
+  INVALID = 'INVALID'
+}
+
+// What a cleared level earned, for the celebration screen.
+export interface LevelSummary {
+  // Grid words the player found, and the grid words hints filled in for them.
+  wordsFound: number;
+  wordsRevealed: number;
+  wordPoints: number;
+  extraWords: number;
+  extraPoints: number;
+  hintsUsed: number;
+  timeMs: number;
+  // Running score after the level; null in unscored modes.
+  score: number | null;
 }
 
 export enum GameState {
   LOADING = 'LOADING',
   PLAYING = 'PLAYING',
-  LEVEL_COMPLETE = 'LEVEL_COMPLETE'
+  LEVEL_COMPLETE = 'LEVEL_COMPLETE',
+  // Time attack ran out before every word was found.
+  LEVEL_FAILED = 'LEVEL_FAILED',
+  DAILY_COMPLETE = 'DAILY_COMPLETE'
+}
+
+export enum GameMode {
+  CLASSIC = 'CLASSIC',
+  TIME_ATTACK = 'TIME_ATTACK',
+  ZEN = 'ZEN'
+}
+
+export enum PuzzleSource {
+  ENDLESS = 'ENDLESS',
+  DAILY = 'DAILY',
+  // Hand-made or exported levels loaded from a level pack file.
+  PACK = 'PACK'
 }
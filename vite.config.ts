@@ -1,13 +1,76 @@
 
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+
+// The WordEngine and the data it loads, as lazy chunks of the main bundle. They only run in
+// the main-thread fallback for browsers without module workers; the worker build has its own
+// copies, which are precached. Left out of the precache, the fallback fetches them on demand.
+const MAIN_THREAD_ENGINE = /\/(services\/wordEngine\.ts|data\/words\/|data\/curation\/)/;
+
+// Emits service-worker.js from the template at the project root, listing the built and
+// public files for precaching. The version changes whenever any of their contents change.
+const serviceWorker = (): Plugin => {
+  let root = '';
+  let publicDir = '';
+  return {
+    name: 'wordflow-service-worker',
+    apply: 'build',
+    // After index.html and the worker chunks have been added to the bundle.
+    enforce: 'post',
+    configResolved(config) {
+      root = config.root;
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const built = Object.values(bundle).flatMap(file => {
+        hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+        const isFallbackOnly = file.type === 'chunk' && !file.isEntry && MAIN_THREAD_ENGINE.test(file.facadeModuleId ?? '');
+        return isFallbackOnly ? [] : [file.fileName];
+      });
+      const published = publicDir
+        ? readdirSync(publicDir, { recursive: true, withFileTypes: true })
+            .filter(entry => entry.isFile())
+            .map(entry => {
+              const path = join(entry.parentPath, entry.name);
+              const fileName = relative(publicDir, path).split('\\').join('/');
+              hash.update(fileName).update(readFileSync(path));
+              return fileName;
+            })
+        : [];
+      const files = [...built, ...published].sort().map(name => `./${name}`);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'service-worker.js',
+        source: readFileSync(join(root, 'service-worker.js'), 'utf8')
+          .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+          .replace('__PRECACHE_FILES__', JSON.stringify(files, null, 2))
+      });
+    }
+  };
+};
 
 // Replace 'wordflow' with your actual repository name
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: './', // Using relative paths makes it work on any sub-path or domain
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
+  },
+  worker: {
+    // The engine worker lazy-loads the bundled dictionary, which needs code splitting.
+    format: 'es',
+  },
+  test: {
+    environment: 'jsdom',
+    // No network in tests: anything that reaches fetch must stub it.
+    restoreMocks: true,
+    unstubGlobals: true,
   }
 });